@@ -1,5 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Upload, 
   Image as ImageIcon, 
@@ -13,40 +12,252 @@ import {
   Copy,
   Key,
   LogOut,
-  ShieldCheck,
-  X,
-  Zap
+  Zap,
+  Scissors,
+  FileDown,
+  Bookmark,
+  FileText,
+  Pencil,
+  History,
+  BarChart3,
+  Crop,
+  Link,
+  Sparkles,
+  ChevronLeft,
+  ChevronRight,
+  Cpu,
+  Eraser,
+  Layers,
+  Archive,
+  LayoutGrid,
+  Users,
+  Dices,
+  Repeat,
+  GitCompare,
+  Pin,
+  FolderOpen,
+  ShieldCheck
 } from 'lucide-react';
-import { ReferenceImage, AppConfig, Resolution, AIStudio } from './types';
-import { fileToBase64, getMimeType, removeBackground } from './utils';
+import {
+  ReferenceImage,
+  AppConfig,
+  ProviderId,
+  MattingOptions,
+  AIStudio,
+  GeneratedSheet,
+  StickerAsset,
+  SavedPreset,
+  PromptTemplate,
+  HistoryEntry,
+  SheetJob,
+  BatchItem,
+  ModelSheet,
+  PaletteColor,
+  Project,
+  QualityReport
+} from './types';
+import { createId, downloadDataUrl } from './utils';
+import { DEFAULT_MATTING_OPTIONS, ProgressCallback } from './matting';
+import { analyzeSheet, extractPalette, processImage, segmentSheet } from './processing';
+import {
+  getSheetDimensions,
+  formatSheetSize,
+  getModelAspectRatio,
+  getPrintPixelSize,
+  renderPrintSheet,
+  PRINT_DPI_OPTIONS,
+  validateSheetSize,
+  SheetDimensions
+} from './layout';
+import { addSheetVersion, selectSheetVersion, replaceCurrentVersionSrc, toInlineData } from './sheets';
+import { createJobQueue, JobQueue, DEFAULT_QUEUE_OPTIONS } from './queue';
+import {
+  IMAGE_PROVIDERS,
+  DEFAULT_PROVIDER_ID,
+  ImagePart,
+  ImageResult,
+  getImageProvider,
+  normalizeProviderConfig
+} from './providers';
+import { applyPreset } from './presets';
+import { BatchHaltError, haltsBatch } from './batch';
+import { addHistoryEntry } from './history';
+import { NamedApiKey, saveKeys } from './keys';
+import {
+  DEFAULT_PROJECT_NAME,
+  createProject,
+  getActiveProjectId,
+  listProjects,
+  loadProject,
+  saveProject,
+  setActiveProjectId
+} from './projects';
+import { PROXY_URL, fetchProxyQuota, generateViaProxy } from './proxy';
+import { estimateCallCost, estimateCost, formatUsd, loadUsageRecords, loadUsageSettings, recordUsage, startOfDay, UsageSettings } from './usage';
+import { loadExportSettings } from './archive';
+import {
+  CropRect,
+  MAX_EDGE_OPTIONS,
+  UploadSettings,
+  cropReference,
+  fileFromUrl,
+  hashReferenceImage,
+  isDuplicateHash,
+  loadUploadSettings,
+  prepareUpload,
+  saveUploadSettings
+} from './uploads';
+import { QuotaStatus } from './server/protocol';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  PromptVariables,
+  buildPrompt,
+  buildRefinePrompt,
+  countStickers,
+  buildModelSheetPrompt,
+  findTemplate,
+  loadCustomTemplates,
+  saveCustomTemplates
+} from './prompts';
+import { ComposerItem, renderComposition } from './composer';
+import { MAX_QUALITY_RETRIES, QUALITY_PASS_SCORE } from './quality';
+import {
+  DEFAULT_STYLE_STRENGTH,
+  DEFAULT_TEMPERATURE,
+  STYLE_STRENGTH_LABELS,
+  randomSeed,
+  sheetSeed
+} from './variation';
+import {
+  EXPRESSION_GRIDS,
+  MODEL_SHEET_DIMENSIONS,
+  applyExpressionGrid,
+  findExpressionGrid,
+  measurePaletteDrift,
+  modelSheetKey
+} from './consistency';
+import StickerPicker from './components/StickerPicker';
+import CutlineExportModal from './components/CutlineExportModal';
+import SheetSizePicker from './components/SheetSizePicker';
+import PresetManager from './components/PresetManager';
+import PromptTemplateModal from './components/PromptTemplateModal';
+import ReferenceDetailsModal from './components/ReferenceDetailsModal';
+import HistoryGallery from './components/HistoryGallery';
+import RefinePanel from './components/RefinePanel';
+import SheetJobCard from './components/SheetJobCard';
+import MattingModal from './components/MattingModal';
+import BatchModal, { BatchItemResult } from './components/BatchModal';
+import BulkExportModal from './components/BulkExportModal';
+import ApiKeyModal from './components/ApiKeyModal';
+import UsageDashboard from './components/UsageDashboard';
+import ReferenceCropModal from './components/ReferenceCropModal';
+import SheetComposerModal from './components/SheetComposerModal';
+import CompareModal from './components/CompareModal';
+import QualityReportCard from './components/QualityReportCard';
+import ProjectsModal from './components/ProjectsModal';
 
 // Constants
 const GREEN_SCREEN_HEX = '#00FF00'; // Bright green for chroma key
-const MODEL_NAME = 'gemini-3-pro-image-preview';
 const DAILY_DEMO_LIMIT = 3;
+const REFERENCE_DRAG_TYPE = 'application/x-sticker-reference'; // dataTransfer type for reordering thumbnails
+const PROJECT_SAVE_DELAY_MS = 1000; // Auto-save waits for edits to settle
+
+// Everything one sheet generation needs, so runs do not depend on the current UI state
+interface SheetRun {
+  id: string;
+  seed: number; // Base seed, see sheetSeed
+  apiKey: string;
+  promptText: string;
+  config: AppConfig;
+  references: ReferenceImage[];
+  modelSheets?: ModelSheet[]; // Consistency mode: one per reference, in the same order
+  retries?: { remaining: number }; // Quality check retries left, shared by all sheets of the run
+}
+
+const DEFAULT_CONFIG: AppConfig = {
+  providerId: DEFAULT_PROVIDER_ID,
+  model: getImageProvider(DEFAULT_PROVIDER_ID).models[0].id,
+  resolution: '1K',
+  backgroundColor: '#FACC15', // Default yellow
+  isTransparent: false,
+  sheetSize: '4x6',
+  customWidth: 4,
+  customHeight: 6,
+  customUnit: 'in',
+  numberOfSheets: 1,
+  dpi: 300,
+  marginInches: 0.125,
+  promptTemplateId: DEFAULT_TEMPLATE_ID,
+  concurrency: 2,
+  matting: DEFAULT_MATTING_OPTIONS,
+  consistencyMode: false,
+  expressionGridId: '',
+  seed: null,
+  temperature: DEFAULT_TEMPERATURE,
+  styleStrength: DEFAULT_STYLE_STRENGTH,
+  qualityChecks: true,
+  qualityRetries: 0,
+};
 
 export default function App() {
   // State
   const [hasKey, setHasKey] = useState(false); // True if AI Studio or valid user key
-  const [userProvidedKey, setUserProvidedKey] = useState('');
+  const [apiKeys, setApiKeys] = useState<NamedApiKey[]>([]);
+  const [activeKeyId, setActiveKeyId] = useState<string | null>(null);
+  // Passphrase of the saved keys once unlocked or chosen, so later changes are saved too
+  const [keyPassphrase, setKeyPassphrase] = useState<string | null>(null);
   const [showKeyModal, setShowKeyModal] = useState(false);
   const [keyModalMessage, setKeyModalMessage] = useState(''); // Custom message for modal
   
   // Demo Limit State
   const [demoUsage, setDemoUsage] = useState(0);
+  const [demoLimit, setDemoLimit] = useState(DAILY_DEMO_LIMIT);
 
   const [refImages, setRefImages] = useState<ReferenceImage[]>([]);
-  const [config, setConfig] = useState<AppConfig>({
-    resolution: '1K',
-    backgroundColor: '#FACC15', // Default yellow
-    isTransparent: false,
-    sheetSize: '4x6',
-    customWidth: 4,
-    customHeight: 6,
-    numberOfSheets: 1,
-  });
+  const [config, setConfig] = useState<AppConfig>(DEFAULT_CONFIG);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+  const [generatedImages, setGeneratedImages] = useState<GeneratedSheet[]>([]);
+  const [stickersBySheet, setStickersBySheet] = useState<Record<string, StickerAsset[]>>({});
+  const [segmentingSheetId, setSegmentingSheetId] = useState<string | null>(null);
+  const [cutExportIndex, setCutExportIndex] = useState<number | null>(null);
+  const [mattingIndex, setMattingIndex] = useState<number | null>(null);
+  const [isMatting, setIsMatting] = useState(false);
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(() => loadCustomTemplates());
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [editingRefId, setEditingRefId] = useState<string | null>(null);
+  const [croppingRefId, setCroppingRefId] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [importUrl, setImportUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [uploadSettings, setUploadSettings] = useState<UploadSettings>(() => loadUploadSettings());
+  const [showHistory, setShowHistory] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showBulkExport, setShowBulkExport] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showComposer, setShowComposer] = useState(false);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => loadUsageSettings());
+  const [currentRun, setCurrentRun] = useState<Omit<HistoryEntry, 'sheets' | 'sizeBytes'> | null>(null);
+  const [refineOpenId, setRefineOpenId] = useState<string | null>(null);
+  const [refiningSheetId, setRefiningSheetId] = useState<string | null>(null);
+  const [sheetJobs, setSheetJobs] = useState<SheetJob[]>([]);
+  const [modelSheets, setModelSheets] = useState<Record<string, ModelSheet>>({}); // By reference id
+  const [driftBySticker, setDriftBySticker] = useState<Record<string, number>>({});
+  const [reproducingSheetId, setReproducingSheetId] = useState<string | null>(null);
+  const [compareA, setCompareA] = useState<GeneratedSheet | null>(null); // Pinned across runs
+  const [compareB, setCompareB] = useState<GeneratedSheet | null>(null);
+  const [activeProject, setActiveProject] = useState<Pick<Project, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [showProjects, setShowProjects] = useState(false);
+  const queueRef = useRef<JobQueue<GeneratedSheet> | null>(null);
+  // Cancels the whole generate run, including model sheets drawn before the queue exists
+  const runControllerRef = useRef<AbortController | null>(null);
+  // Sheets as last rendered, for saving runs after a long await without losing sheets added meanwhile
+  const generatedImagesRef = useRef<GeneratedSheet[]>([]);
+  generatedImagesRef.current = generatedImages;
+  // Model sheets drawn so far; a ref so batch runs see sheets drawn earlier in the same batch
+  const modelSheetsRef = useRef<Record<string, ModelSheet>>({});
+  // Runs of this session by id, so their sheets can be reproduced
+  const sheetRunsRef = useRef(new Map<string, SheetRun>());
   const [statusMessage, setStatusMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
 
@@ -70,8 +281,14 @@ export default function App() {
     checkKey();
     
     // Initialize demo usage
-    const usage = getDailyDemoUsage();
-    setDemoUsage(usage);
+    if (PROXY_URL) {
+      fetchProxyQuota()
+        .then(applyProxyQuota)
+        .catch(err => console.error("Failed to load the proxy quota", err));
+    } else {
+      const usage = getDailyDemoUsage();
+      setDemoUsage(usage);
+    }
   }, []);
 
   // Demo Usage Logic
@@ -91,7 +308,14 @@ export default function App() {
     }
   };
 
+  // The proxy counts demo uses itself and reports them with every response
+  const applyProxyQuota = (quota: QuotaStatus) => {
+    setDemoUsage(quota.used);
+    setDemoLimit(quota.limit);
+  };
+
   const incrementDemoUsage = () => {
+    if (PROXY_URL) return;
     const current = getDailyDemoUsage();
     const today = new Date().toDateString();
     const newCount = current + 1;
@@ -102,224 +326,973 @@ export default function App() {
     setDemoUsage(newCount);
   };
 
-  // Handle API Key Selection from Modal
-  const handleManualKeySubmit = (e: React.FormEvent) => {
-      e.preventDefault();
-      if (userProvidedKey.trim().length > 10) {
-          setHasKey(true);
-          setShowKeyModal(false);
-          setError(null);
-      } else {
-          setError("Invalid API Key");
-      }
+  const userProvidedKey = apiKeys.find(k => k.id === activeKeyId)?.key || '';
+
+  // Apply changes from the key modal, re-encrypting the saved copy when saving is on
+  const handleKeysChange = async (keys: NamedApiKey[], nextActiveId: string | null, passphrase?: string | null) => {
+    const nextPassphrase = passphrase === undefined ? keyPassphrase : passphrase;
+    if (nextPassphrase) await saveKeys(keys, nextPassphrase);
+    setKeyPassphrase(nextPassphrase);
+    setApiKeys(keys);
+    setActiveKeyId(nextActiveId);
+    setHasKey(!!nextActiveId);
+    if (nextActiveId) setError(null);
   };
 
+  // Saved keys stay encrypted on the device; only the in-memory copies are dropped
   const handleLogout = () => {
     setHasKey(false);
-    setUserProvidedKey('');
+    setApiKeys([]);
+    setActiveKeyId(null);
+    setKeyPassphrase(null);
   };
 
   // Image Upload Handler
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const files: File[] = Array.from(e.target.files);
-      
-      const newImages: ReferenceImage[] = [];
-      for (const file of files) {
-        try {
-          const base64 = await fileToBase64(file);
-          const mimeType = getMimeType(file);
-          newImages.push({
-            id: Math.random().toString(36).substr(2, 9),
-            data: base64,
-            mimeType,
-          });
-        } catch (err) {
-          console.error("Failed to process file", err);
+  // Every way of adding references (picker, drop, paste, URL, sticker) ends up here
+  const addReferenceFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const newImages: ReferenceImage[] = [];
+    const problems: string[] = [];
+    // References loaded from history or a batch may predate hashing
+    const knownHashes = await Promise.all(refImages.map(ref =>
+      ref.hash ? ref.hash : hashReferenceImage(`data:${ref.mimeType};base64,${ref.data}`).catch(() => '')
+    ));
+
+    for (const file of files) {
+      try {
+        const prepared = await prepareUpload(file, uploadSettings);
+        if (knownHashes.some(hash => hash && isDuplicateHash(hash, prepared.hash))) {
+          problems.push(`${file.name}: already added.`);
+          continue;
         }
+        knownHashes.push(prepared.hash);
+        newImages.push({
+          id: createId(),
+          data: prepared.data,
+          mimeType: prepared.mimeType,
+          hash: prepared.hash,
+          name: '',
+          captions: [],
+          stickerCount: 1,
+          note: '',
+        });
+      } catch (err: any) {
+        console.error("Failed to process file", err);
+        problems.push(err.message || `${file.name}: could not be read.`);
       }
-      setRefImages(prev => [...prev, ...newImages]);
     }
+    setRefImages(prev => [...prev, ...newImages]);
+    setError(problems.length > 0 ? `Skipped ${problems.length} file(s). ${problems.join(' ')}` : null);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
     // Reset input
     if (fileInputRef.current) fileInputRef.current.value = '';
+    await addReferenceFiles(files);
+  };
+
+  const handleReferenceDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addReferenceFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const importReferenceUrl = async (url: string, fallbackName: string) => {
+    setIsImporting(true);
+    try {
+      await addReferenceFiles([await fileFromUrl(url, fallbackName)]);
+      return true;
+    } catch (err: any) {
+      console.error("Failed to import image", err);
+      setError(err.message || "Could not import the image.");
+      return false;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = importUrl.trim();
+    if (!/^(https?:|data:image\/)/i.test(url)) {
+      setError("Enter an http(s) image URL or a data:image URL.");
+      return;
+    }
+    if (await importReferenceUrl(url, 'image')) setImportUrl('');
+  };
+
+  // Reuse a character from a finished sheet as a new reference
+  const handleUseStickerAsReference = (sticker: StickerAsset) => {
+    importReferenceUrl(sticker.src, `sticker-${sticker.id}.png`);
+  };
+
+  // Paste images from the clipboard anywhere on the page. Re-registered every render so it sees current state.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      addReferenceFiles(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  // Drag-to-reorder: the order is the "Reference image N" numbering in the prompt
+  const moveReference = (id: string, toIndex: number) => {
+    setRefImages(prev => {
+      const from = prev.findIndex(img => img.id === id);
+      if (from < 0 || from === toIndex) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
   };
 
   const removeImage = (id: string) => {
     setRefImages(prev => prev.filter(img => img.id !== id));
   };
 
-  // Single Sheet Generation Helper
-  const generateSingleSheet = async (ai: GoogleGenAI, promptText: string, index: number): Promise<string> => {
-    // 1. Prepare payload
-    const parts = refImages.map(img => ({
-      inlineData: {
-        mimeType: img.mimeType,
-        data: img.data
-      }
-    }));
-    parts.push({ text: promptText } as any);
-
-    // 2. Call API
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: { parts },
-      config: {
-        imageConfig: {
-          aspectRatio: "3:4", 
-          imageSize: config.resolution
+  const updateImage = (id: string, patch: Partial<ReferenceImage>) => {
+    setRefImages(prev => prev.map(img => (img.id === id ? { ...img, ...patch } : img)));
+  };
+
+  const handleCropReference = async (image: ReferenceImage, crop: CropRect) => {
+    const prepared = await cropReference(`data:${image.mimeType};base64,${image.data}`, crop, uploadSettings);
+    updateImage(image.id, { data: prepared.data, mimeType: prepared.mimeType, hash: prepared.hash });
+  };
+
+  const handleUploadSettingsChange = (next: UploadSettings) => {
+    setUploadSettings(next);
+    saveUploadSettings(next);
+  };
+
+  // Selected image provider and model
+  const provider = getImageProvider(config.providerId);
+  const selectedModelLabel = provider.models.find(m => m.id === config.model)?.label || config.model;
+  // One caption per requested sticker, in the order the prompt lists them
+  const captionConfig = currentRun?.config || config;
+  const captionGrid = captionConfig.consistencyMode ? findExpressionGrid(captionConfig.expressionGridId) : null;
+  const captionReferences = currentRun?.referenceImages || refImages;
+  const stickerCaptions = (captionGrid ? applyExpressionGrid(captionReferences, captionGrid) : captionReferences).flatMap(ref =>
+    Array.from({ length: ref.stickerCount }, (_, i) => ref.captions[i] || ref.name || '')
+  );
+
+  // Prompt Templates
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...customTemplates], [customTemplates]);
+
+  const handleCustomTemplatesChange = (next: PromptTemplate[]) => {
+    setCustomTemplates(next);
+    saveCustomTemplates(next);
+  };
+
+  // Values interpolated into the selected template
+  const getPromptVariables = (runConfig: AppConfig = config, references: ReferenceImage[] = refImages): PromptVariables => ({
+    count: countStickers(references),
+    size: formatSheetSize(getSheetDimensions(runConfig)),
+    background: runConfig.isTransparent
+      ? `a solid, bright green color (Hex: ${GREEN_SCREEN_HEX})`
+      : `a solid color (Hex: ${runConfig.backgroundColor})`,
+  });
+
+  // Name of the key a call is billed to, for the usage dashboard
+  const describeKey = (apiKey: string, requiresApiKey: boolean): string => {
+    if (!requiresApiKey) return 'No key';
+    const named = apiKeys.find(k => k.key === apiKey);
+    if (named) return named.name;
+    if (!apiKey) return PROXY_URL && !getAIStudio() ? 'Proxy' : 'AI Studio';
+    return apiKey === process.env.API_KEY ? 'Demo key' : 'Other key';
+  };
+
+  // Ask the configured provider for an image sized for the sheet, recording usage and estimated cost
+  const requestSheetImage = async (
+    apiKey: string,
+    parts: ImagePart[],
+    sheetDimensions: SheetDimensions,
+    label: string,
+    signal?: AbortSignal,
+    runConfig: AppConfig = config,
+    seed?: number
+  ): Promise<string> => {
+    const runProvider = getImageProvider(runConfig.providerId);
+    const request = {
+      model: runConfig.model,
+      parts,
+      aspectRatio: getModelAspectRatio(sheetDimensions, runProvider.aspectRatios),
+      imageSize: runConfig.resolution,
+      label,
+      seed,
+      temperature: runConfig.temperature,
+      signal,
+    };
+    const record = {
+      id: createId(),
+      timestamp: Date.now(),
+      providerId: runProvider.id,
+      model: runConfig.model,
+      resolution: runConfig.resolution,
+      keyLabel: describeKey(apiKey, runProvider.requiresApiKey),
+      project: activeProject?.name || loadExportSettings().projectName,
+    };
+    const startedAt = performance.now();
+
+    try {
+      let result: ImageResult;
+      // Without a key of their own, demo users go through the proxy, which holds the shared key
+      if (PROXY_URL && runProvider.requiresApiKey && !apiKey && !getAIStudio()) {
+        try {
+          const { image, usage, quota } = await generateViaProxy(request);
+          applyProxyQuota(quota);
+          result = { src: image, usage };
+        } catch (err: any) {
+          if (err.code === 'QUOTA_EXCEEDED') {
+            if (err.quota) applyProxyQuota(err.quota);
+            setKeyModalMessage("Daily free limit reached.");
+            setShowKeyModal(true);
+          }
+          throw err;
         }
+      } else {
+        result = await runProvider.generateImage(request, apiKey);
+      }
+
+      recordUsage({
+        ...record,
+        images: 1,
+        usage: result.usage,
+        latencyMs: Math.round(performance.now() - startedAt),
+        success: true,
+        costUsd: estimateCost(usageSettings.prices, runConfig.model, runConfig.resolution, 1, result.usage?.promptTokens || 0),
+      });
+      return result.src;
+    } catch (err: any) {
+      // Cancelled calls were the user's choice, not a failure worth tracking
+      if (!signal?.aborted) {
+        recordUsage({
+          ...record,
+          images: 0,
+          latencyMs: Math.round(performance.now() - startedAt),
+          success: false,
+          error: err?.message || 'Unknown error',
+          costUsd: 0,
+        });
       }
+      throw err;
+    }
+  };
+
+  // Transparency, exact physical size, margins and DPI metadata
+  const processSheetImage = async (
+    rawImageSrc: string,
+    sheetDimensions: SheetDimensions,
+    isTransparent: boolean,
+    backgroundColor: string,
+    runConfig: AppConfig = config,
+    onProgress?: ProgressCallback
+  ): Promise<string> => {
+    // Background removal runs in the image worker
+    const keyedSrc = isTransparent
+      ? (await processImage(rawImageSrc, [{ type: 'matte', color: GREEN_SCREEN_HEX, options: runConfig.matting }], onProgress)).src
+      : rawImageSrc;
+
+    return await renderPrintSheet(keyedSrc, sheetDimensions, {
+      dpi: runConfig.dpi,
+      marginInches: runConfig.marginInches,
+      backgroundColor: isTransparent ? undefined : backgroundColor,
     });
+  };
+
+  // Single Sheet Generation Helper
+  const generateSingleSheet = async (
+    run: SheetRun,
+    index: number,
+    signal?: AbortSignal,
+    onProgress?: ProgressCallback
+  ): Promise<GeneratedSheet> => {
+    const { apiKey, promptText, config: runConfig, references } = run;
+    const sheetDimensions = getSheetDimensions(runConfig);
 
-    // 3. Extract Image
-    let rawImageSrc: string | null = null;
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-            rawImageSrc = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-            break;
+    // 1. Prepare payload
+    // Label each image so "Reference image N" in the prompt points at the right one
+    const parts: ImagePart[] = references.flatMap((img, i): ImagePart[] => [
+      { text: `Reference image ${i + 1}:` },
+      {
+        inlineData: {
+          mimeType: img.mimeType,
+          data: img.data
         }
+      },
+      ...(run.modelSheets?.[i]
+        ? [{ text: `Model sheet for reference image ${i + 1}:` }, { inlineData: toInlineData(run.modelSheets[i].src) }]
+        : []),
+    ]);
+    parts.push({ text: promptText });
+
+    // 2. Call API, again with a new seed while the sheet fails the quality checks and the run has retries left.
+    // The best attempt is kept.
+    const keyColor = runConfig.isTransparent ? GREEN_SCREEN_HEX : runConfig.backgroundColor;
+    let best: { rawImageSrc: string; seed: number; quality?: QualityReport } | null = null;
+    let attempts = 0;
+    while (true) {
+      const attemptSeed = attempts === 0 ? sheetSeed(run.seed, index) : randomSeed();
+      attempts++;
+      const attemptSrc = await requestSheetImage(apiKey, parts, sheetDimensions, `Sheet ${index + 1}`, signal, runConfig, attemptSeed);
+      if (!runConfig.qualityChecks) {
+        best = { rawImageSrc: attemptSrc, seed: attemptSeed };
+        break;
       }
-    }
 
-    if (!rawImageSrc) {
-      throw new Error(`Sheet ${index + 1}: No image generated.`);
+      let analysis;
+      try {
+        analysis = await analyzeSheet(attemptSrc, keyColor, sheetDimensions, countStickers(references));
+      } catch (err) {
+        // A failed check never costs the sheet
+        console.error("Quality check failed", err);
+        best = best || { rawImageSrc: attemptSrc, seed: attemptSeed };
+        break;
+      }
+      if (!best?.quality || analysis.score > best.quality.score) {
+        best = { rawImageSrc: attemptSrc, seed: attemptSeed, quality: { ...analysis, attempts } };
+      }
+      if (analysis.passed || !run.retries || run.retries.remaining <= 0 || signal?.aborted) break;
+      run.retries.remaining--;
     }
+    const { rawImageSrc, seed } = best;
+    const quality = best.quality && { ...best.quality, attempts };
 
-    // 4. Post-Processing (Transparency)
-    if (config.isTransparent) {
-      return await removeBackground(rawImageSrc, GREEN_SCREEN_HEX, 100);
-    } else {
-      return rawImageSrc;
-    }
+    // 3. Post-Processing
+    const src = await processSheetImage(rawImageSrc, sheetDimensions, runConfig.isTransparent, runConfig.backgroundColor, runConfig, onProgress);
+
+    return {
+      id: createId(),
+      src,
+      versions: [{ src, rawSrc: rawImageSrc, createdAt: Date.now(), quality }],
+      versionIndex: 0,
+      isTransparent: runConfig.isTransparent,
+      keyColor,
+      sheetWidth: sheetDimensions.width,
+      sheetHeight: sheetDimensions.height,
+      params: { runId: run.id, seed, config: runConfig },
+    };
   };
 
-  // Generation Logic
-  const handleGenerate = async () => {
-    setError(null);
-    
-    // Determine which key to use
+  // Determine which key to use, prompting for one when none is available
+  const resolveApiKey = (requiresApiKey: boolean = provider.requiresApiKey): { apiKey: string; isUsingDemoKey: boolean } | null => {
+    if (!requiresApiKey) return { apiKey: '', isUsingDemoKey: false };
+
     let apiKeyToUse = userProvidedKey;
     const envKey = process.env.API_KEY;
-    const isUsingDemoKey = !apiKeyToUse && !!envKey;
+    const isUsingDemoKey = !apiKeyToUse && (!!envKey || !!PROXY_URL);
     const aiStudio = getAIStudio();
 
     // Logic: 
     // 1. If User Key exists -> Use it (Unlimited)
     // 2. If AI Studio -> Use it (Unlimited)
-    // 3. If Env Key exists -> Check Limit -> Use it OR Fail
-    // 4. Else -> Prompt for Key
+    // 3. If a proxy is configured -> Check Limit -> Send through it (the proxy enforces the limit too)
+    // 4. If Env Key exists -> Check Limit -> Use it OR Fail
+    // 5. Else -> Prompt for Key
     
     if (!apiKeyToUse && !aiStudio) {
-      if (envKey) {
+      if (PROXY_URL) {
+        if (demoUsage >= demoLimit) {
+          setKeyModalMessage("Daily free limit reached.");
+          setShowKeyModal(true);
+          return null;
+        }
+      } else if (envKey) {
         // Check Limit
         const currentUsage = getDailyDemoUsage();
         if (currentUsage >= DAILY_DEMO_LIMIT) {
           setKeyModalMessage("Daily free limit reached.");
           setShowKeyModal(true);
-          return;
+          return null;
         }
         apiKeyToUse = envKey;
       } else {
         setKeyModalMessage("");
         setShowKeyModal(true);
-        return;
+        return null;
+      }
+    }
+
+    return { apiKey: apiKeyToUse, isUsingDemoKey };
+  };
+
+  // Draw the model sheets that are missing or out of date, one reference at a time
+  const ensureModelSheets = async (
+    apiKey: string,
+    references: ReferenceImage[],
+    runConfig: AppConfig,
+    signal?: AbortSignal
+  ): Promise<ModelSheet[]> => {
+    const sheets: ModelSheet[] = [];
+    for (const [index, ref] of references.entries()) {
+      signal?.throwIfAborted();
+      const key = modelSheetKey(ref);
+      const existing = modelSheetsRef.current[ref.id];
+      if (existing && existing.referenceKey === key) {
+        sheets.push(existing);
+        continue;
       }
+
+      const parts: ImagePart[] = [
+        { text: 'Reference image:' },
+        { inlineData: { mimeType: ref.mimeType, data: ref.data } },
+        { text: buildModelSheetPrompt(ref, `a solid, bright green color (Hex: ${GREEN_SCREEN_HEX})`) },
+      ];
+      const src = await requestSheetImage(apiKey, parts, MODEL_SHEET_DIMENSIONS, `Model sheet ${index + 1}`, signal, runConfig);
+      const modelSheet: ModelSheet = {
+        referenceId: ref.id,
+        referenceKey: key,
+        src,
+        palette: await extractPalette(src, GREEN_SCREEN_HEX),
+        createdAt: Date.now(),
+      };
+      modelSheetsRef.current = { ...modelSheetsRef.current, [ref.id]: modelSheet };
+      setModelSheets(modelSheetsRef.current);
+      sheets.push(modelSheet);
     }
+    return sheets;
+  };
+
+  const discardModelSheet = (referenceId: string) => {
+    const { [referenceId]: _, ...rest } = modelSheetsRef.current;
+    modelSheetsRef.current = rest;
+    setModelSheets(rest);
+  };
+
+  // Prompt, references and (in consistency mode) model sheets for a run
+  const buildSheetRun = async (
+    apiKey: string,
+    runConfig: AppConfig,
+    references: ReferenceImage[],
+    signal?: AbortSignal
+  ): Promise<SheetRun> => {
+    const template = findTemplate(templates, runConfig.promptTemplateId);
+    const grid = runConfig.consistencyMode ? findExpressionGrid(runConfig.expressionGridId) : null;
+    const runReferences = grid ? applyExpressionGrid(references, grid) : references;
+    const modelSheets = runConfig.consistencyMode ? await ensureModelSheets(apiKey, references, runConfig, signal) : undefined;
+    const promptText = buildPrompt(template, getPromptVariables(runConfig, runReferences), runReferences, {
+      consistency: runConfig.consistencyMode ? { hasModelSheets: true, grid } : undefined,
+      styleStrength: runConfig.styleStrength,
+    });
+
+    const run: SheetRun = {
+      id: createId(),
+      seed: runConfig.seed ?? randomSeed(),
+      apiKey,
+      promptText,
+      config: runConfig,
+      references: runReferences,
+      modelSheets,
+      retries: { remaining: runConfig.qualityChecks ? runConfig.qualityRetries : 0 },
+    };
+    sheetRunsRef.current.set(run.id, run);
+    return run;
+  };
+
+  // Run a sheet again with its exact seed, settings, references and model sheets
+  const handleReproduce = async (sheet: GeneratedSheet) => {
+    const run = sheet.params && sheetRunsRef.current.get(sheet.params.runId);
+    if (!sheet.params || !run) return;
+    setError(null);
+    const resolvedKey = resolveApiKey(getImageProvider(run.config.providerId).requiresApiKey);
+    if (!resolvedKey) return;
+
+    setReproducingSheetId(sheet.id);
+    try {
+      // Index 0 keeps the stored sheet seed as the base seed unchanged. No retries, they would change the seed.
+      const reproduced = await generateSingleSheet({ ...run, apiKey: resolvedKey.apiKey, seed: sheet.params.seed, retries: undefined }, 0);
+      setGeneratedImages(prev => [...prev, reproduced]);
+      if (resolvedKey.isUsingDemoKey) {
+        incrementDemoUsage();
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to reproduce the sheet. Please try again.");
+    } finally {
+      setReproducingSheetId(null);
+    }
+  };
+
+  // Generation Logic
+  const handleGenerate = async () => {
+    setError(null);
+    
+    const resolvedKey = resolveApiKey();
+    if (!resolvedKey) return;
+    const { apiKey: apiKeyToUse, isUsingDemoKey } = resolvedKey;
 
     if (refImages.length === 0) {
       setError("Please upload at least one reference image.");
       return;
     }
 
+    if (config.sheetSize === 'custom') {
+      const sizeError = validateSheetSize(config.customWidth, config.customHeight, config.customUnit);
+      if (sizeError) {
+        setError(`Invalid custom sheet size: ${sizeError}`);
+        return;
+      }
+    }
+
+    // Soft budget: warn, but let the user go ahead
+    if (usageSettings.dailyBudgetUsd > 0) {
+      const records = loadUsageRecords();
+      const spentToday = records.filter(r => r.timestamp >= startOfDay()).reduce((sum, r) => sum + r.costUsd, 0);
+      const missingModelSheets = config.consistencyMode
+        ? refImages.filter(ref => modelSheets[ref.id]?.referenceKey !== modelSheetKey(ref)).length
+        : 0;
+      // Quality retries count in full, as the worst case
+      const retries = config.qualityChecks ? config.qualityRetries : 0;
+      const estimate = (config.numberOfSheets + missingModelSheets + retries) * estimateCallCost(usageSettings, records, config.model, config.resolution);
+      if (spentToday + estimate > usageSettings.dailyBudgetUsd && !confirm(
+        `This batch is estimated at ${formatUsd(estimate)}. Together with ${formatUsd(spentToday)} spent today, ` +
+        `that is over your daily budget of ${formatUsd(usageSettings.dailyBudgetUsd)}. Generate anyway?`
+      )) {
+        return;
+      }
+    }
+
     setIsGenerating(true);
     setGeneratedImages([]);
+    setStickersBySheet({});
+    setRefineOpenId(null);
+    setSheetJobs([]);
     
     const sheetCount = config.numberOfSheets;
-    setStatusMessage(`Initializing Gemini 3 Pro for ${sheetCount} sheet(s)...`);
+    setStatusMessage(`Initializing ${selectedModelLabel} for ${sheetCount} sheet(s)...`);
+    const controller = new AbortController();
+    runControllerRef.current = controller;
 
     try {
-      const ai = new GoogleGenAI({ apiKey: apiKeyToUse });
-
-      const bgColorDesc = config.isTransparent 
-        ? `a solid, bright green color (Hex: ${GREEN_SCREEN_HEX})` 
-        : `a solid color (Hex: ${config.backgroundColor})`;
-      
-      let sizeString = "4''x6''";
-      if (config.sheetSize === '8.5x11') sizeString = "8.5''x11''";
-      else if (config.sheetSize === 'custom') sizeString = `${config.customWidth}''x${config.customHeight}''`;
-
-      const promptText = `
-        A high-fidelity, full-body sticker sheet illustration, sized ${sizeString}. 
-        The sheet features ${refImages.length} individual die-cut sticker illustrations of different, recognizable characters (based on the provided reference images).
-        
-        Sticker Content Requirements:
-        Character Style: Smooth, glossy, stylized 3D render, like a vinyl collectible figure. CRITICAL: You must strictly retain all unique identifying features, colors, clothing, and ACCESSORIES (e.g., hats, glasses, items held) from the reference image.
-        Anatomy & Posing: The character must strictly adhere to its four-legged anatomy, and must not display any additional arms or hands (e.g., no thumbs-up, crossed arms, or cheering with hands). All poses must be achieved using only its head, face, and body.
-        Character Expressions: Each of the stickers must display a unique, exaggerated, funny, and expressive facial expression (e.g., angry, laughing, crying, confused), avoiding generic emoji-style faces.
-        Text: Include exactly ONE single word (e.g., 'YAY!', 'LOL', 'GRRR!') placed strictly NEXT TO its corresponding sticker. Use a handwritten, comic-style font. Do NOT use sentences or multiple words.
-        Die-Cut Style: Each individual sticker must have a clean, thick white die-cut outline/border.
-        Layout: Arrange the stickers in a flexible, non-grid, and appealing layout across the sheet. CRITICAL: Ensure ample spacing between all stickers. They must NOT overlap each other or the text. Each sticker must be fully separated.
-        
-        Background & Lighting:
-        The overall background for the sticker sheet must be ${bgColorDesc}. 
-        Use isolated, clear lighting to make the 3D-rendered stickers pop against the background.
-        Ensure the background color is uniform and flat to facilitate easy removal if needed.
-      `;
+      if (config.consistencyMode) {
+        setStatusMessage('Drawing character model sheets...');
+      }
+      const sheetRun = await buildSheetRun(apiKeyToUse, config, refImages, controller.signal);
+      controller.signal.throwIfAborted();
+      const promptText = sheetRun.promptText;
 
       setStatusMessage(`Generating ${sheetCount} sticker sheet(s)... This may take a moment.`);
 
-      // Create array of promises for concurrent generation
-      const promises = Array.from({ length: sheetCount }).map((_, i) => 
-        generateSingleSheet(ai, promptText, i)
-      );
-
-      const results = await Promise.allSettled(promises);
-      
-      const successfulImages: string[] = [];
+      // Queue one job per sheet; sheets show up as soon as they finish
+      const successfulImages: GeneratedSheet[] = [];
       const errors: string[] = [];
+      const jobs: SheetJob[] = Array.from({ length: sheetCount }, (_, i) => ({
+        id: createId(),
+        index: i,
+        status: 'queued',
+        attempt: 0,
+      }));
+      setSheetJobs(jobs);
+
+      const queue = createJobQueue<GeneratedSheet>((update) => {
+        setSheetJobs(prev => prev.map(job => (job.id === update.id
+          ? { ...job, status: update.status, attempt: update.attempt, retryInMs: update.retryInMs, error: update.error, progress: undefined }
+          : job)));
 
-      results.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          successfulImages.push(result.value);
-        } else {
-          errors.push(`Sheet ${index + 1} failed: ${result.reason?.message || 'Unknown error'}`);
+        const index = jobs.findIndex(job => job.id === update.id);
+        if (update.status === 'done' && update.result) {
+          const sheet = update.result;
+          successfulImages.push(sheet);
+          setGeneratedImages(prev => [...prev, sheet]);
+        } else if (update.status === 'failed') {
+          errors.push(`Sheet ${index + 1} failed: ${update.error || 'Unknown error'}`);
         }
-      });
+      }, { ...DEFAULT_QUEUE_OPTIONS, concurrency: config.concurrency });
+      queueRef.current = queue;
+
+      jobs.forEach(job => queue.add({
+        id: job.id,
+        run: (signal) => generateSingleSheet(sheetRun, job.index, signal, (progress) =>
+          setSheetJobs(prev => prev.map(j => (j.id === job.id ? { ...j, progress } : j)))
+        ),
+      }));
+
+      await queue.onIdle();
 
       if (successfulImages.length > 0) {
-        setGeneratedImages(successfulImages);
+        const run = {
+          id: createId(),
+          createdAt: Date.now(),
+          model: config.model,
+          prompt: promptText,
+          config,
+          referenceImages: refImages,
+          projectId: activeProject?.id,
+        };
+        setCurrentRun(run);
+        addHistoryEntry({ ...run, sheets: successfulImages })
+          .catch(err => console.error("Failed to save generation history", err));
         // Only increment limit if NOT using user key and NOT using AI studio
         if (isUsingDemoKey) {
           incrementDemoUsage();
         }
         if (errors.length > 0) {
-          setError(`Generated ${successfulImages.length} sheet(s), but some failed: ${errors.join('; ')}`);
+          setError(`Generated ${successfulImages.length} of ${sheetCount} sheet(s); ${errors.length} failed. See the preview panel for details.`);
         }
-      } else {
-        throw new Error(errors.join('; ') || "All generations failed.");
+      } else if (errors.length > 0) {
+        throw new Error(errors.length === 1 ? errors[0] : `All ${errors.length} sheets failed. See the preview panel for details.`);
       }
 
     } catch (err: any) {
+      // Cancelled while drawing model sheets, before any sheet was queued
+      if (controller.signal.aborted && !queueRef.current) return;
       console.error(err);
       setError(err.message || "Failed to generate stickers. Please try again.");
     } finally {
+      queueRef.current = null;
+      runControllerRef.current = null;
       setIsGenerating(false);
       setStatusMessage('');
     }
   };
 
+  // Generate the missing sheets of one batch item with its config overrides applied
+  const runBatchItem = async (item: BatchItem, signal: AbortSignal): Promise<BatchItemResult> => {
+    const runConfig = normalizeProviderConfig({ ...config, ...item.overrides });
+    if (runConfig.sheetSize === 'custom') {
+      const sizeError = validateSheetSize(runConfig.customWidth, runConfig.customHeight, runConfig.customUnit);
+      if (sizeError) throw new Error(`Invalid custom sheet size: ${sizeError}`);
+    }
+
+    const resolvedKey = resolveApiKey(getImageProvider(runConfig.providerId).requiresApiKey);
+    if (!resolvedKey) throw new BatchHaltError("An API key is required, or the daily limit was reached.");
+
+    const sheetRun = await buildSheetRun(resolvedKey.apiKey, runConfig, item.references, signal);
+    const promptText = sheetRun.promptText;
+
+    const sheets: GeneratedSheet[] = [];
+    const errors: string[] = [];
+    let halted = false;
+    const queue = createJobQueue<GeneratedSheet>((update) => {
+      if (update.status === 'done' && update.result) sheets.push(update.result);
+      else if (update.status === 'failed') errors.push(update.error || 'Unknown error');
+    }, { ...DEFAULT_QUEUE_OPTIONS, concurrency: runConfig.concurrency });
+
+    const onAbort = () => queue.cancelAll();
+    signal.addEventListener('abort', onAbort);
+    for (let i = item.sheets.length; i < runConfig.numberOfSheets; i++) {
+      queue.add({
+        id: createId(),
+        run: (jobSignal) => generateSingleSheet(sheetRun, i, jobSignal).catch(err => {
+          // The queue only reports the message, so note the failures that should stop the batch here
+          if (haltsBatch(err)) halted = true;
+          throw err;
+        }),
+      });
+    }
+    await queue.onIdle();
+    signal.removeEventListener('abort', onAbort);
+
+    if (sheets.length > 0) {
+      addHistoryEntry({
+        id: createId(),
+        createdAt: Date.now(),
+        model: runConfig.model,
+        prompt: promptText,
+        config: runConfig,
+        referenceImages: item.references,
+        sheets,
+        projectId: activeProject?.id,
+      }).catch(err => console.error("Failed to save generation history", err));
+      if (resolvedKey.isUsingDemoKey) {
+        incrementDemoUsage();
+      }
+    }
+
+    return {
+      sheets,
+      error: errors.length > 0 ? `${errors.length} sheet(s) failed: ${errors.join('; ')}` : undefined,
+      halted,
+    };
+  };
+
+  const handleCancelJob = (id: string) => {
+    queueRef.current?.cancel(id);
+  };
+
+  const handleCancelAll = () => {
+    runControllerRef.current?.abort();
+    queueRef.current?.cancelAll();
+  };
+
+  // Send a sheet back to the model with a follow-up instruction
+  const handleRefine = async (sheet: GeneratedSheet, instruction: string) => {
+    setError(null);
+    const resolvedKey = resolveApiKey();
+    if (!resolvedKey) return;
+
+    setRefiningSheetId(sheet.id);
+    try {
+      const sheetDimensions = { width: sheet.sheetWidth, height: sheet.sheetHeight };
+      const current = sheet.versions[sheet.versionIndex];
+      const background = sheet.isTransparent
+        ? `a solid, bright green color (Hex: ${GREEN_SCREEN_HEX})`
+        : `a solid color (Hex: ${sheet.keyColor})`;
+
+      const parts: ImagePart[] = [
+        { inlineData: toInlineData(current.rawSrc) },
+        { text: buildRefinePrompt(instruction, background) },
+      ];
+
+      const rawImageSrc = await requestSheetImage(resolvedKey.apiKey, parts, sheetDimensions, 'Refinement');
+      const src = await processSheetImage(rawImageSrc, sheetDimensions, sheet.isTransparent, sheet.keyColor);
+      const version = { src, rawSrc: rawImageSrc, instruction, createdAt: Date.now() };
+      // Applied to the latest copy of the sheet, which may have changed during the request
+      const refine = (sheets: GeneratedSheet[]) => sheets.map(s => (s.id === sheet.id ? addSheetVersion(s, version) : s));
+
+      setGeneratedImages(refine);
+      setStickersBySheet(prev => {
+        const { [sheet.id]: _, ...rest } = prev;
+        return rest;
+      });
+      setRefineOpenId(null);
+
+      if (currentRun) {
+        addHistoryEntry({ ...currentRun, sheets: refine(generatedImagesRef.current) })
+          .catch(err => console.error("Failed to save generation history", err));
+      }
+      if (resolvedKey.isUsingDemoKey) {
+        incrementDemoUsage();
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to refine the sheet. Please try again.");
+    } finally {
+      setRefiningSheetId(null);
+    }
+  };
+
+  // Re-run background removal on the selected version with new settings
+  const handleApplyMatting = async (sheet: GeneratedSheet, matting: MattingOptions) => {
+    setIsMatting(true);
+    try {
+      const sheetDimensions = { width: sheet.sheetWidth, height: sheet.sheetHeight };
+      const current = sheet.versions[sheet.versionIndex];
+      const src = await processSheetImage(current.rawSrc, sheetDimensions, true, sheet.keyColor, { ...config, matting });
+      const updated = replaceCurrentVersionSrc(sheet, src);
+      const nextImages = generatedImages.map(s => (s.id === sheet.id ? updated : s));
+
+      setGeneratedImages(nextImages);
+      setStickersBySheet(prev => {
+        const { [sheet.id]: _, ...rest } = prev;
+        return rest;
+      });
+      setConfig(prev => ({ ...prev, matting }));
+      setMattingIndex(null);
+
+      if (currentRun) {
+        addHistoryEntry({ ...currentRun, sheets: nextImages })
+          .catch(err => console.error("Failed to save generation history", err));
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to remove the background.");
+    } finally {
+      setIsMatting(false);
+    }
+  };
+
+  const handleSelectVersion = (sheetId: string, index: number) => {
+    setGeneratedImages(prev => prev.map(s => (s.id === sheetId ? selectSheetVersion(s, index) : s)));
+    setStickersBySheet(prev => {
+      const { [sheetId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Render a composed layout and add it to the results like a generated sheet
+  const handleComposeSheet = async (items: ComposerItem[]) => {
+    const sheetDimensions = getSheetDimensions(config);
+    const keyColor = config.isTransparent ? GREEN_SCREEN_HEX : config.backgroundColor;
+    // The copy on the key color stands in for model output, so Refine and Edges work as on generated sheets
+    const rawSrc = await renderComposition(items, sheetDimensions, config.dpi, keyColor);
+    const src = config.isTransparent ? await renderComposition(items, sheetDimensions, config.dpi) : rawSrc;
+    setGeneratedImages(prev => [...prev, {
+      id: createId(),
+      src,
+      versions: [{ src, rawSrc, createdAt: Date.now() }],
+      versionIndex: 0,
+      isTransparent: config.isTransparent,
+      keyColor,
+      sheetWidth: sheetDimensions.width,
+      sheetHeight: sheetDimensions.height,
+    }]);
+  };
+
+  const handleApplyPreset = (preset: SavedPreset) => {
+    setConfig(normalizeProviderConfig(applyPreset(DEFAULT_CONFIG, preset)));
+  };
+
+  // Bring back the config and references of a past run
+  const handleRestoreHistory = (entry: HistoryEntry) => {
+    setConfig(normalizeProviderConfig({ ...DEFAULT_CONFIG, ...entry.config }));
+    setRefImages(entry.referenceImages);
+    setShowHistory(false);
+  };
+
+  // Projects: the workspace is saved as a whole and swapped out when another project opens
+  const snapshotProject = (project: Pick<Project, 'id' | 'name' | 'createdAt'>): Project => ({
+    ...project,
+    updatedAt: Date.now(),
+    config,
+    referenceImages: refImages,
+    templates: customTemplates.filter(t => t.id === config.promptTemplateId),
+    sheets: generatedImages,
+    run: currentRun,
+    modelSheets: Object.values(modelSheets),
+  });
+
+  const applyProject = (project: Project) => {
+    setConfig(normalizeProviderConfig({ ...DEFAULT_CONFIG, ...project.config }));
+    setRefImages(project.referenceImages);
+    setGeneratedImages(project.sheets);
+    setCurrentRun(project.run);
+    modelSheetsRef.current = Object.fromEntries(project.modelSheets.map(sheet => [sheet.referenceId, sheet]));
+    setModelSheets(modelSheetsRef.current);
+    setStickersBySheet({});
+    setDriftBySticker({});
+    setSheetJobs([]);
+    setRefineOpenId(null);
+    setError(null);
+    // A custom template the project uses may not exist in this browser (imported projects)
+    const missing = project.templates.filter(t => !customTemplates.some(c => c.id === t.id));
+    if (missing.length > 0) handleCustomTemplatesChange([...customTemplates, ...missing]);
+    setActiveProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setActiveProjectId(project.id);
+  };
+
+  const saveActiveProject = async () => {
+    if (activeProject) await saveProject(snapshotProject(activeProject));
+  };
+
+  // Open the last used project. The first visit turns the empty workspace into a project.
+  useEffect(() => {
+    const openInitialProject = async () => {
+      try {
+        const id = getActiveProjectId();
+        const project = (id && await loadProject(id)) || (await listProjects())[0];
+        if (project) {
+          applyProject(project);
+          return;
+        }
+        const created = createProject(DEFAULT_PROJECT_NAME, {
+          config: DEFAULT_CONFIG,
+          referenceImages: [],
+          templates: [],
+          sheets: [],
+          run: null,
+          modelSheets: [],
+        });
+        await saveProject(created);
+        applyProject(created);
+      } catch (err) {
+        console.error("Failed to open the project", err);
+      }
+    };
+    openInitialProject();
+  }, []);
+
+  useEffect(() => {
+    if (!activeProject) return;
+    const timer = setTimeout(() => {
+      saveActiveProject().catch(err => console.error("Failed to save the project", err));
+    }, PROJECT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeProject, config, refImages, generatedImages, currentRun, modelSheets, customTemplates]);
+
+  const handleShowProjects = async () => {
+    try {
+      await saveActiveProject();
+    } catch (err) {
+      console.error("Failed to save the project", err);
+    }
+    setShowProjects(true);
+  };
+
+  const handleOpenProject = async (project: Project) => {
+    try {
+      await saveActiveProject();
+    } catch (err: any) {
+      console.error(err);
+      if (!confirm("The current project could not be saved. Open the other project anyway?")) return;
+    }
+    applyProject(project);
+    setShowProjects(false);
+  };
+
+  // A new project keeps the current settings but starts without references or results
+  const handleCreateProject = async (name: string) => {
+    const project = createProject(name, {
+      config,
+      referenceImages: [],
+      templates: customTemplates.filter(t => t.id === config.promptTemplateId),
+      sheets: [],
+      run: null,
+      modelSheets: [],
+    });
+    try {
+      await saveActiveProject();
+      await saveProject(project);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not create the project. Storage may be full.");
+      return;
+    }
+    applyProject(project);
+    setShowProjects(false);
+  };
+
+  const handleProviderChange = (providerId: ProviderId) => {
+    setConfig(prev => normalizeProviderConfig({ ...prev, providerId }));
+  };
+
   const downloadImage = (src: string, index: number) => {
-    const link = document.createElement('a');
-    link.href = src;
-    link.download = `sticker-sheet-${index + 1}-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadDataUrl(src, `sticker-sheet-${index + 1}-${Date.now()}.png`);
+  };
+
+  // Split a sheet into individual stickers
+  const handleSegment = async (sheet: GeneratedSheet) => {
+    setSegmentingSheetId(sheet.id);
+    setError(null);
+    try {
+      const stickers = await segmentSheet(sheet);
+      setStickersBySheet(prev => ({ ...prev, [sheet.id]: stickers }));
+
+      // Compare against the model sheets of the run's characters, when there are any
+      const canonical = (currentRun?.referenceImages || refImages)
+        .map(ref => modelSheets[ref.id]?.palette)
+        .filter((palette): palette is NonNullable<typeof palette> => !!palette && palette.length > 0);
+      if (canonical.length > 0) {
+        const palettes: Record<string, PaletteColor[]> = {};
+        for (const sticker of stickers) palettes[sticker.id] = await extractPalette(sticker.src);
+        const drift = measurePaletteDrift(palettes, canonical);
+        setDriftBySticker(prev => ({ ...prev, ...drift }));
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to split the sheet into stickers.");
+    } finally {
+      setSegmentingSheetId(null);
+    }
   };
 
   // Determine if we are in "Demo Mode" (Using env key, no user key)
-  const isDemoMode = !userProvidedKey && !getAIStudio() && !!process.env.API_KEY;
+  const isDemoMode = !userProvidedKey && !getAIStudio() && (!!PROXY_URL || !!process.env.API_KEY);
+
+  // Sheets that have not produced a result (yet)
+  const pendingJobs = sheetJobs.filter(job => job.status !== 'done');
+
+  // The expression grid replaces each reference's own sticker count
+  const configGrid = config.consistencyMode ? findExpressionGrid(config.expressionGridId) : null;
+  const stickersPerSheet = countStickers(configGrid ? applyExpressionGrid(refImages, configGrid) : refImages);
+
+  // Physical output size for the current configuration
+  const sheetDimensions = getSheetDimensions(config);
+  const printSize = getPrintPixelSize(sheetDimensions, config.dpi);
 
   return (
     <div className="min-h-screen bg-yellow-50 flex flex-col">
@@ -335,7 +1308,58 @@ export default function App() {
             </span>
           </div>
           <div className="flex items-center gap-4 text-sm text-slate-600">
-             <span className="hidden sm:inline-block font-medium">Powered by Gemini 3 Pro</span>
+             <span className="hidden sm:inline-block font-medium">Powered by {selectedModelLabel}</span>
+             <button 
+              onClick={handleShowProjects}
+              disabled={isGenerating || !activeProject}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-green-50 hover:text-green-700 rounded-lg transition-colors text-xs font-semibold max-w-[10rem] disabled:opacity-50"
+              title={isGenerating ? 'Projects can be switched once generation finishes' : 'Switch, duplicate, export or import projects'}
+            >
+              <FolderOpen className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate">{activeProject?.name || 'Projects'}</span>
+             </button>
+             <button 
+              onClick={() => setShowBatch(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-green-50 hover:text-green-700 rounded-lg transition-colors text-xs font-semibold"
+              title="Generate packs for many customers from a ZIP or CSV"
+            >
+              <Layers className="w-3.5 h-3.5" />
+              Batch
+             </button>
+             <button 
+              onClick={() => setShowComposer(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-green-50 hover:text-green-700 rounded-lg transition-colors text-xs font-semibold"
+              title="Lay out individual stickers on a sheet with exact spacing"
+            >
+              <LayoutGrid className="w-3.5 h-3.5" />
+              Compose
+             </button>
+             <button 
+              onClick={() => setShowHistory(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-green-50 hover:text-green-700 rounded-lg transition-colors text-xs font-semibold"
+              title="Browse past generations"
+            >
+              <History className="w-3.5 h-3.5" />
+              History
+             </button>
+             <button 
+              onClick={() => setShowUsage(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-green-50 hover:text-green-700 rounded-lg transition-colors text-xs font-semibold"
+              title="Calls, tokens and estimated cost"
+            >
+              <BarChart3 className="w-3.5 h-3.5" />
+              Usage
+             </button>
+             {apiKeys.length > 0 && (
+               <button 
+                onClick={() => { setKeyModalMessage(''); setShowKeyModal(true); }}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-green-50 hover:text-green-700 rounded-lg transition-colors text-xs font-semibold max-w-[10rem]"
+                title="Switch or add API keys"
+              >
+                <Key className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate">{apiKeys.find(k => k.id === activeKeyId)?.name || 'Keys'}</span>
+               </button>
+             )}
              {userProvidedKey && (
                <button 
                 onClick={handleLogout}
@@ -356,27 +1380,79 @@ export default function App() {
         <div className="flex flex-col gap-6 h-fit">
           
           {/* Section: Upload */}
-          <section className="bg-white rounded-2xl p-6 shadow-sm border border-yellow-100">
+          <section
+            className={`bg-white rounded-2xl p-6 shadow-sm border transition-colors ${isDraggingFiles ? 'border-green-500 ring-2 ring-green-200' : 'border-yellow-100'}`}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setIsDraggingFiles(true);
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+            }}
+            onDrop={(e) => {
+              if (e.dataTransfer.files.length > 0) handleReferenceDrop(e);
+            }}
+          >
             <h2 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
               <ImageIcon className="w-5 h-5 text-green-600" /> Reference Images
             </h2>
             
             <div className="grid grid-cols-2 gap-3 mb-4">
-              {refImages.map((img) => (
-                <div key={img.id} className="relative group aspect-square rounded-xl overflow-hidden bg-slate-100 border border-slate-200">
-                  <img src={`data:${img.mimeType};base64,${img.data}`} alt="Ref" className="w-full h-full object-cover" />
+              {refImages.map((img, index) => (
+                <div
+                  key={img.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(REFERENCE_DRAG_TYPE, img.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragOver={(e) => {
+                    if (e.dataTransfer.types.includes(REFERENCE_DRAG_TYPE)) e.preventDefault();
+                  }}
+                  onDrop={(e) => {
+                    const id = e.dataTransfer.getData(REFERENCE_DRAG_TYPE);
+                    if (!id) return;
+                    e.preventDefault();
+                    moveReference(id, index);
+                  }}
+                  className="relative group aspect-square rounded-xl overflow-hidden bg-slate-100 border border-slate-200 cursor-grab active:cursor-grabbing"
+                >
+                  <img src={`data:${img.mimeType};base64,${img.data}`} alt={img.name || "Ref"} draggable={false} className="w-full h-full object-cover" />
+                  <button 
+                    onClick={() => setEditingRefId(img.id)}
+                    className="absolute top-1 left-1 p-1 bg-white/80 backdrop-blur-sm rounded-full text-green-600 hover:bg-green-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Edit details"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button 
+                    onClick={() => setCroppingRefId(img.id)}
+                    className="absolute top-1 left-8 p-1 bg-white/80 backdrop-blur-sm rounded-full text-green-600 hover:bg-green-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Crop"
+                  >
+                    <Crop className="w-4 h-4" />
+                  </button>
                   <button 
                     onClick={() => removeImage(img.id)}
                     className="absolute top-1 right-1 p-1 bg-white/80 backdrop-blur-sm rounded-full text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-opacity"
                   >
                     <Trash2 className="w-4 h-4" />
                   </button>
+                  <button
+                    onClick={() => setEditingRefId(img.id)}
+                    className="absolute bottom-0 inset-x-0 px-2 py-1 bg-black/50 backdrop-blur-sm text-white text-xs text-left flex items-center justify-between gap-1"
+                  >
+                    <span className="truncate"><span className="font-semibold">{index + 1}.</span> {img.name || 'Unnamed'}</span>
+                    <span className="shrink-0 font-semibold">×{img.stickerCount}</span>
+                  </button>
                 </div>
               ))}
               
               <label className="aspect-square rounded-xl border-2 border-dashed border-green-300 hover:border-green-500 bg-green-50/50 hover:bg-green-50 transition-colors cursor-pointer flex flex-col items-center justify-center gap-2 text-green-600">
                 <Upload className="w-6 h-6" />
                 <span className="text-xs font-medium">Add Image</span>
+                <span className="text-[10px] text-green-500">or drop / paste</span>
                 <input 
                   type="file" 
                   ref={fileInputRef}
@@ -387,9 +1463,39 @@ export default function App() {
                 />
               </label>
             </div>
+            <form onSubmit={handleImportUrl} className="flex gap-2 mb-3">
+              <input
+                type="url"
+                value={importUrl}
+                onChange={(e) => setImportUrl(e.target.value)}
+                placeholder="Or paste an image URL"
+                className="min-w-0 flex-1 px-3 py-1.5 rounded-lg border border-slate-200 text-xs outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+              />
+              <button
+                type="submit"
+                disabled={isImporting || !importUrl.trim()}
+                className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600 text-xs font-semibold hover:bg-green-50 hover:text-green-700 transition-colors flex items-center gap-1 disabled:opacity-50"
+              >
+                {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Link className="w-3.5 h-3.5" />}
+                Import
+              </button>
+            </form>
             <p className="text-xs text-slate-400">
-              Upload reference images. {refImages.length} image{refImages.length !== 1 ? 's' : ''} added.
+              Upload reference images. {refImages.length} image{refImages.length !== 1 ? 's' : ''} added, {stickersPerSheet} sticker{stickersPerSheet !== 1 ? 's' : ''} per sheet.
+              {refImages.length > 1 && ' Drag to reorder; reference 1 comes first on the sheet.'}
             </p>
+            <label className="mt-2 text-xs text-slate-400 flex items-center gap-2">
+              Resize uploads to
+              <select
+                value={uploadSettings.maxEdge}
+                onChange={(e) => handleUploadSettingsChange({ ...uploadSettings, maxEdge: parseInt(e.target.value, 10) })}
+                className="px-1.5 py-0.5 rounded border border-slate-200 bg-white text-slate-600 outline-none focus:border-green-500"
+              >
+                {MAX_EDGE_OPTIONS.map(edge => (
+                  <option key={edge} value={edge}>{edge > 0 ? `${edge} px` : 'Original size'}</option>
+                ))}
+              </select>
+            </label>
           </section>
 
           {/* Section: Configuration */}
@@ -399,43 +1505,295 @@ export default function App() {
             </h2>
 
             <div className="space-y-6">
+
+              {/* Provider & Model */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                  <Cpu className="w-4 h-4 text-slate-500"/> Image Provider
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={config.providerId}
+                    onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                    className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm outline-none focus:border-green-500"
+                  >
+                    {IMAGE_PROVIDERS.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={config.model}
+                    onChange={(e) => setConfig(prev => ({ ...prev, model: e.target.value }))}
+                    className="px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm outline-none focus:border-green-500"
+                  >
+                    {provider.models.map((m) => (
+                      <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {!provider.requiresApiKey && (
+                  <p className="text-xs text-slate-400 mt-2">
+                    Draws deterministic placeholder sheets locally. No API key or network needed.
+                  </p>
+                )}
+              </div>
+
+              {/* Saved Presets */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                  <Bookmark className="w-4 h-4 text-slate-500"/> Presets
+                </label>
+                <PresetManager config={config} onApply={handleApplyPreset} />
+              </div>
               
               {/* Sheet Size */}
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
                   <Maximize className="w-4 h-4 text-slate-500"/> Sheet Size
                 </label>
-                <div className="flex flex-col gap-2">
-                   <div className="flex gap-2">
-                      <button
-                        onClick={() => setConfig(prev => ({ ...prev, sheetSize: '4x6' }))}
-                        className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
-                          config.sheetSize === '4x6'
-                            ? 'bg-green-600 text-white shadow-md shadow-green-200'
-                            : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
-                        }`}
+                <SheetSizePicker
+                  config={config}
+                  onChange={(patch: Partial<AppConfig>) => setConfig(prev => ({ ...prev, ...patch }))}
+                />
+              </div>
+
+              {/* Prompt Template */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                  <FileText className="w-4 h-4 text-slate-500"/> Prompt Style
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={config.promptTemplateId}
+                    onChange={(e) => setConfig(prev => ({ ...prev, promptTemplateId: e.target.value }))}
+                    className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white outline-none focus:border-green-500"
+                  >
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setShowTemplateModal(true)}
+                    className="px-3 py-2 rounded-lg bg-slate-50 text-slate-600 text-sm font-medium hover:bg-slate-100 transition-colors"
+                  >
+                    Edit
+                  </button>
+                </div>
+              </div>
+
+              {/* Character Consistency */}
+              <div>
+                <label className="flex items-center justify-between text-sm font-medium text-slate-700 mb-2">
+                  <span className="flex items-center gap-2">
+                    <Users className="w-4 h-4 text-slate-500"/> Character Consistency
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={config.consistencyMode}
+                    onChange={(e) => setConfig(prev => ({ ...prev, consistencyMode: e.target.checked }))}
+                    className="w-4 h-4 accent-green-600"
+                  />
+                </label>
+                <p className="text-xs text-slate-500">
+                  Draw a model sheet of each character first and send it with every sheet, so colors and accessories stay the same.
+                </p>
+                {config.consistencyMode && (
+                  <div className="mt-3 space-y-3">
+                    <div className="flex items-center justify-between text-xs text-slate-500">
+                      <span>Expressions</span>
+                      <select
+                        value={config.expressionGridId}
+                        onChange={(e) => setConfig(prev => ({ ...prev, expressionGridId: e.target.value }))}
+                        className="px-2 py-1 rounded-lg border border-slate-300 bg-white outline-none focus:border-green-500"
                       >
-                        4" × 6"
-                      </button>
+                        <option value="">Each reference's captions</option>
+                        {EXPRESSION_GRIDS.map(grid => (
+                          <option key={grid.id} value={grid.id}>{grid.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {refImages.length > 0 && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {refImages.map((ref, index) => {
+                          const modelSheet = modelSheets[ref.id];
+                          const isCurrent = !!modelSheet && modelSheet.referenceKey === modelSheetKey(ref);
+                          return (
+                            <div key={ref.id} className="relative group rounded-lg border border-slate-200 bg-slate-50 overflow-hidden">
+                              {isCurrent ? (
+                                <img src={modelSheet.src} alt={`Model sheet ${index + 1}`} className="w-full aspect-[3/2] object-cover" />
+                              ) : (
+                                <div className="w-full aspect-[3/2] flex items-center justify-center text-[10px] text-slate-400 text-center px-2">
+                                  Drawn on next generate
+                                </div>
+                              )}
+                              <div className="px-2 py-1 text-[10px] text-slate-600 truncate">
+                                <span className="font-semibold">{index + 1}.</span> {ref.name || 'Unnamed'}
+                              </div>
+                              {isCurrent && (
+                                <button
+                                  onClick={() => discardModelSheet(ref.id)}
+                                  disabled={isGenerating}
+                                  className="absolute top-1 right-1 p-1 bg-white/80 backdrop-blur-sm rounded-full text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                                  title="Discard and redraw on next generate"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Variation */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                  <Dices className="w-4 h-4 text-slate-500"/> Variation
+                </label>
+                <div className="space-y-3 text-xs text-slate-500">
+                  <div className="flex items-center justify-between gap-2">
+                    <span>Seed</span>
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={config.seed ?? ''}
+                        placeholder="Random"
+                        onChange={(e) => setConfig(prev => ({
+                          ...prev,
+                          seed: e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value)) || 0),
+                        }))}
+                        className="w-28 px-2 py-1 rounded-lg border border-slate-300 bg-white outline-none focus:border-green-500"
+                      />
                       <button
-                        onClick={() => setConfig(prev => ({ ...prev, sheetSize: '8.5x11' }))}
-                        className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
-                          config.sheetSize === '8.5x11'
-                            ? 'bg-green-600 text-white shadow-md shadow-green-200'
-                            : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
-                        }`}
+                        onClick={() => setConfig(prev => ({ ...prev, seed: randomSeed() }))}
+                        className="p-1.5 rounded-lg bg-slate-100 text-slate-600 hover:bg-green-50 hover:text-green-700 transition-colors"
+                        title="Pick a new fixed seed"
                       >
-                        8.5" × 11"
+                        <Dices className="w-3.5 h-3.5" />
                       </button>
-                   </div>
+                    </div>
+                  </div>
+                  <p className="text-[11px] text-slate-400">
+                    Sheet N of a run uses seed + N. Leave empty for a new random seed each run.
+                  </p>
+                  <label className="flex items-center justify-between gap-2">
+                    <span>Temperature</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={config.temperature}
+                      onChange={(e) => setConfig(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+                      className="flex-1 accent-green-600"
+                    />
+                    <span className="w-8 text-right">{config.temperature.toFixed(1)}</span>
+                  </label>
+                  <label className="flex items-center justify-between gap-2">
+                    <span>Style strength</span>
+                    <input
+                      type="range"
+                      min={1}
+                      max={5}
+                      step={1}
+                      value={config.styleStrength}
+                      onChange={(e) => setConfig(prev => ({ ...prev, styleStrength: Number(e.target.value) }))}
+                      className="flex-1 accent-green-600"
+                    />
+                    <span className="w-28 text-right">{STYLE_STRENGTH_LABELS[config.styleStrength]}</span>
+                  </label>
+                </div>
+              </div>
+
+              {/* Quality Checks */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4 text-slate-500"/> Quality Checks
+                </label>
+                <div className="space-y-3 text-xs text-slate-500">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={config.qualityChecks}
+                      onChange={(e) => setConfig(prev => ({ ...prev, qualityChecks: e.target.checked }))}
+                      className="w-4 h-4 accent-green-600"
+                    />
+                    <span>Check sticker count, spacing, borders and background</span>
+                  </label>
+                  {config.qualityChecks && (
+                    <>
+                      <label className="flex items-center justify-between gap-2">
+                        <span>Auto-retry budget</span>
+                        <select
+                          value={config.qualityRetries}
+                          onChange={(e) => setConfig(prev => ({ ...prev, qualityRetries: parseInt(e.target.value, 10) }))}
+                          className="px-2 py-1 rounded-lg border border-slate-300 bg-white outline-none focus:border-green-500"
+                        >
+                          {Array.from({ length: MAX_QUALITY_RETRIES + 1 }, (_, n) => (
+                            <option key={n} value={n}>{n === 0 ? 'Off' : `${n} extra sheet${n !== 1 ? 's' : ''} per run`}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <p className="text-[11px] text-slate-400">
+                        Sheets scoring below {QUALITY_PASS_SCORE}, with the wrong sticker count or with stickers too close to cut are
+                        generated again with a new seed while the budget lasts. Each retry is billed like a sheet.
+                      </p>
+                    </>
+                  )}
                 </div>
               </div>
 
+              {/* Print Quality */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Print DPI</label>
+                <div className="grid grid-cols-3 gap-2 mb-3">
+                  {PRINT_DPI_OPTIONS.map((dpi) => (
+                    <button
+                      key={dpi}
+                      onClick={() => setConfig(prev => ({ ...prev, dpi }))}
+                      className={`py-2 rounded-lg text-sm font-medium transition-all ${
+                        config.dpi === dpi
+                          ? 'bg-green-600 text-white shadow-md shadow-green-200'
+                          : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                      }`}
+                    >
+                      {dpi}
+                    </button>
+                  ))}
+                </div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Safe Margin</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {[0, 0.125, 0.25].map((margin) => (
+                    <button
+                      key={margin}
+                      onClick={() => setConfig(prev => ({ ...prev, marginInches: margin }))}
+                      className={`py-2 rounded-lg text-sm font-medium transition-all ${
+                        config.marginInches === margin
+                          ? 'bg-green-600 text-white shadow-md shadow-green-200'
+                          : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                      }`}
+                    >
+                      {margin === 0 ? 'None' : `${margin}"`}
+                    </button>
+                  ))}
+                </div>
+                {printSize.width > 0 && printSize.height > 0 && (
+                  <p className="text-xs text-slate-400 mt-2">
+                    Generated at {getModelAspectRatio(sheetDimensions, provider.aspectRatios)}, output {printSize.width} × {printSize.height} px.
+                  </p>
+                )}
+              </div>
+
               {/* Resolution */}
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-2">Output Resolution</label>
                 <div className="grid grid-cols-3 gap-2">
-                  {(['1K', '2K', '4K'] as Resolution[]).map((res) => (
+                  {provider.imageSizes.map((res) => (
                     <button
                       key={res}
                       onClick={() => setConfig(prev => ({ ...prev, resolution: res }))}
@@ -522,6 +1880,18 @@ export default function App() {
                      </button>
                    ))}
                 </div>
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>Parallel requests</span>
+                  <select
+                    value={config.concurrency}
+                    onChange={(e) => setConfig(prev => ({ ...prev, concurrency: parseInt(e.target.value, 10) }))}
+                    className="px-2 py-1 rounded-lg border border-slate-300 bg-white outline-none focus:border-green-500"
+                  >
+                    {[1, 2, 3, 5].map((n) => (
+                      <option key={n} value={n}>{n}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
             </div>
@@ -535,8 +1905,8 @@ export default function App() {
                    <Zap className="w-3.5 h-3.5 text-yellow-500 fill-yellow-500" />
                    <span>Free Demo Mode</span>
                  </div>
-                 <span className={`font-semibold ${demoUsage >= DAILY_DEMO_LIMIT ? 'text-red-500' : 'text-green-600'}`}>
-                   {Math.max(0, DAILY_DEMO_LIMIT - demoUsage)} / {DAILY_DEMO_LIMIT} free uses left today
+                 <span className={`font-semibold ${demoUsage >= demoLimit ? 'text-red-500' : 'text-green-600'}`}>
+                   {Math.max(0, demoLimit - demoUsage)} / {demoLimit} free uses left today
                  </span>
               </div>
             )}
@@ -558,6 +1928,14 @@ export default function App() {
                 </>
               )}
             </button>
+            {isGenerating && (
+              <button
+                onClick={handleCancelAll}
+                className="w-full py-2 bg-white text-slate-600 hover:text-red-600 hover:bg-red-50 font-semibold rounded-xl border border-slate-200 transition-colors text-sm"
+              >
+                Cancel Remaining Sheets
+              </button>
+            )}
           </div>
           
           {error && (
@@ -571,33 +1949,181 @@ export default function App() {
         {/* Right Panel: Preview/Result */}
         <div className="flex flex-col h-full min-h-[500px] bg-yellow-100/30 rounded-2xl border-2 border-dashed border-yellow-200 overflow-hidden relative">
           
-          {generatedImages.length > 0 ? (
+          {generatedImages.length > 0 || pendingJobs.length > 0 ? (
              <div className="flex-1 p-8 bg-[url('https://www.transparenttextures.com/patterns/white-diamond.png')] overflow-y-auto">
                 <div className="grid grid-cols-1 gap-12 w-full">
-                  {generatedImages.map((src, index) => (
-                    <div key={index} className="flex flex-col items-center animate-in fade-in slide-in-from-bottom-4 duration-500" style={{ animationDelay: `${index * 150}ms` }}>
-                       <div className="w-full bg-white p-2 rounded shadow-sm mb-2 text-center text-sm font-medium text-slate-500">
-                          Sheet #{index + 1}
+                  {generatedImages.map((sheet, index) => (
+                    <div key={sheet.id} className="flex flex-col items-center animate-in fade-in slide-in-from-bottom-4 duration-500" style={{ animationDelay: `${index * 150}ms` }}>
+                       <div className="w-full bg-white p-2 rounded shadow-sm mb-2 text-sm font-medium text-slate-500 flex items-center justify-between">
+                          <span className="w-24" />
+                          <span>Sheet #{index + 1}</span>
+                          <div className="w-24 flex items-center justify-end gap-1">
+                            {sheet.versions.length > 1 && (
+                              <>
+                                <button
+                                  onClick={() => handleSelectVersion(sheet.id, sheet.versionIndex - 1)}
+                                  disabled={sheet.versionIndex === 0}
+                                  className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+                                  title="Previous version"
+                                >
+                                  <ChevronLeft className="w-4 h-4" />
+                                </button>
+                                <span className="text-xs">v{sheet.versionIndex + 1}/{sheet.versions.length}</span>
+                                <button
+                                  onClick={() => handleSelectVersion(sheet.id, sheet.versionIndex + 1)}
+                                  disabled={sheet.versionIndex === sheet.versions.length - 1}
+                                  className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+                                  title="Next version"
+                                >
+                                  <ChevronRight className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                          </div>
                        </div>
+                       {sheet.versions[sheet.versionIndex].instruction && (
+                         <p className="w-full text-xs text-slate-500 italic mb-2 text-center">
+                           "{sheet.versions[sheet.versionIndex].instruction}"
+                         </p>
+                       )}
+                       {sheet.versions[sheet.versionIndex].quality && (
+                         <QualityReportCard report={sheet.versions[sheet.versionIndex].quality!} />
+                       )}
+                       {sheet.params && (
+                         <p className="w-full text-xs text-slate-500 mb-2 text-center">
+                           Seed {sheet.params.seed} · Temperature {sheet.params.config.temperature.toFixed(1)} · Style strength {sheet.params.config.styleStrength}
+                           {compareA?.id === sheet.id && <span className="ml-2 px-1.5 py-0.5 rounded bg-green-600 text-white font-semibold">A</span>}
+                         </p>
+                       )}
                        <img 
-                          src={src} 
+                          src={sheet.src} 
                           alt={`Generated Sticker Sheet ${index + 1}`} 
                           className="max-w-full shadow-2xl rounded-sm object-contain mb-6"
                         />
-                        <button 
-                          onClick={() => downloadImage(src, index)}
-                          className="bg-green-600 hover:bg-green-700 text-white px-8 py-3 rounded-xl font-bold shadow-xl shadow-green-900/20 transition-all hover:-translate-y-1 flex items-center gap-2"
-                        >
-                          <Download className="w-5 h-5" />
-                          Download Sheet #{index + 1}
-                        </button>
+                        <div className="flex flex-wrap justify-center gap-3 mb-6">
+                          <button 
+                            onClick={() => downloadImage(sheet.src, index)}
+                            className="bg-green-600 hover:bg-green-700 text-white px-8 py-3 rounded-xl font-bold shadow-xl shadow-green-900/20 transition-all hover:-translate-y-1 flex items-center gap-2"
+                          >
+                            <Download className="w-5 h-5" />
+                            Download Sheet #{index + 1}
+                          </button>
+                          <button 
+                            onClick={() => handleSegment(sheet)}
+                            disabled={segmentingSheetId !== null}
+                            className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {segmentingSheetId === sheet.id
+                              ? <Loader2 className="w-5 h-5 animate-spin" />
+                              : <Scissors className="w-5 h-5" />}
+                            Split into Stickers
+                          </button>
+                          <button 
+                            onClick={() => setCutExportIndex(index)}
+                            className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1 flex items-center gap-2"
+                          >
+                            <FileDown className="w-5 h-5" />
+                            Cut File
+                          </button>
+                          <button 
+                            onClick={() => setRefineOpenId(refineOpenId === sheet.id ? null : sheet.id)}
+                            className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1 flex items-center gap-2"
+                          >
+                            <Sparkles className="w-5 h-5" />
+                            Refine
+                          </button>
+                          {sheet.params && sheetRunsRef.current.has(sheet.params.runId) && (
+                            <button 
+                              onClick={() => handleReproduce(sheet)}
+                              disabled={reproducingSheetId !== null}
+                              className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                              title="Run again with the same seed and settings; the model may still vary slightly"
+                            >
+                              {reproducingSheetId === sheet.id
+                                ? <Loader2 className="w-5 h-5 animate-spin" />
+                                : <Repeat className="w-5 h-5" />}
+                              Reproduce
+                            </button>
+                          )}
+                          {compareA && compareA.id !== sheet.id ? (
+                            <button 
+                              onClick={() => setCompareB(sheet)}
+                              className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1 flex items-center gap-2"
+                              title="Side by side with the sheet pinned as A"
+                            >
+                              <GitCompare className="w-5 h-5" />
+                              Compare with A
+                            </button>
+                          ) : (
+                            <button 
+                              onClick={() => setCompareA(compareA ? null : sheet)}
+                              className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1 flex items-center gap-2"
+                              title="Keep this sheet to compare against, also after the next run"
+                            >
+                              <Pin className="w-5 h-5" />
+                              {compareA ? 'Unpin A' : 'Pin as A'}
+                            </button>
+                          )}
+                          {sheet.isTransparent && (
+                            <button 
+                              onClick={() => setMattingIndex(index)}
+                              className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1 flex items-center gap-2"
+                            >
+                              <Eraser className="w-5 h-5" />
+                              Edges
+                            </button>
+                          )}
+                        </div>
+                        {refineOpenId === sheet.id && (
+                          <RefinePanel
+                            isRefining={refiningSheetId === sheet.id}
+                            disabled={refiningSheetId !== null}
+                            onSubmit={(instruction: string) => handleRefine(sheet, instruction)}
+                            onCancel={() => setRefineOpenId(null)}
+                          />
+                        )}
+                        {stickersBySheet[sheet.id] && (
+                          <StickerPicker
+                            stickers={stickersBySheet[sheet.id]}
+                            sheetIndex={index}
+                            captions={stickerCaptions}
+                            driftScores={driftBySticker}
+                            onUseAsReference={handleUseStickerAsReference}
+                          />
+                        )}
                     </div>
                   ))}
                 </div>
 
-                <div className="mt-12 flex justify-center pb-8">
+                {pendingJobs.length > 0 && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-12">
+                    {pendingJobs.map((job) => (
+                      <div key={job.id}>
+                        <SheetJobCard job={job} onCancel={() => handleCancelJob(job.id)} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mt-12 flex flex-wrap justify-center gap-3 pb-8">
+                   {generatedImages.length > 0 && (
+                     <button 
+                       onClick={() => setShowBulkExport(true)}
+                       disabled={isGenerating}
+                       className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-xl font-bold shadow-xl shadow-green-900/20 transition-all hover:-translate-y-1 flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                     >
+                       <Archive className="w-5 h-5" />
+                       Download All
+                     </button>
+                   )}
                    <button 
-                     onClick={() => setGeneratedImages([])}
+                     onClick={() => {
+                       setGeneratedImages([]);
+                       setStickersBySheet({});
+                       setDriftBySticker({});
+                       setSheetJobs([]);
+                     }}
+                     disabled={isGenerating}
                      className="bg-white/90 backdrop-blur text-slate-800 px-6 py-3 rounded-xl font-bold shadow-xl shadow-slate-900/10 hover:bg-white transition-all hover:-translate-y-1"
                    >
                      Make Another Batch
@@ -634,62 +2160,140 @@ export default function App() {
 
       </main>
 
+      {/* Cut File Export Modal */}
+      {cutExportIndex !== null && generatedImages[cutExportIndex] && (
+        <CutlineExportModal
+          sheet={generatedImages[cutExportIndex]}
+          sheetIndex={cutExportIndex}
+          onClose={() => setCutExportIndex(null)}
+        />
+      )}
+
+      {/* Background Removal Modal */}
+      {mattingIndex !== null && generatedImages[mattingIndex] && (
+        <MattingModal
+          sheet={generatedImages[mattingIndex]}
+          sheetIndex={mattingIndex}
+          options={config.matting}
+          isApplying={isMatting}
+          onApply={(matting: MattingOptions) => handleApplyMatting(generatedImages[mattingIndex], matting)}
+          onClose={() => setMattingIndex(null)}
+        />
+      )}
+
+      {/* Download All */}
+      {showBulkExport && generatedImages.length > 0 && (
+        <BulkExportModal
+          sheets={generatedImages}
+          stickersBySheet={stickersBySheet}
+          run={currentRun || { model: config.model, prompt: '', config, referenceImages: refImages }}
+          onClose={() => setShowBulkExport(false)}
+        />
+      )}
+
+      {/* Usage & Cost */}
+      {showUsage && (
+        <UsageDashboard
+          settings={usageSettings}
+          onSettingsChange={setUsageSettings}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {/* A/B Comparison */}
+      {compareA && compareB && (
+        <CompareModal
+          a={compareA}
+          b={compareB}
+          labelA={generatedImages.some(s => s.id === compareA.id) ? `Sheet #${generatedImages.findIndex(s => s.id === compareA.id) + 1}` : 'Earlier sheet'}
+          labelB={`Sheet #${generatedImages.findIndex(s => s.id === compareB.id) + 1}`}
+          templates={templates}
+          onClose={() => setCompareB(null)}
+        />
+      )}
+
+      {/* Sheet Composer */}
+      {showComposer && (
+        <SheetComposerModal
+          sheet={sheetDimensions}
+          marginInches={config.marginInches}
+          sessionStickers={Object.values<StickerAsset[]>(stickersBySheet).flat()}
+          onCompose={handleComposeSheet}
+          onClose={() => setShowComposer(false)}
+        />
+      )}
+
+      {/* Batch Mode */}
+      {showBatch && (
+        <BatchModal
+          defaultSheetCount={config.numberOfSheets}
+          onRunItem={runBatchItem}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
+
+      {/* Projects */}
+      {showProjects && (
+        <ProjectsModal
+          activeProjectId={activeProject?.id || null}
+          onOpen={handleOpenProject}
+          onCreate={handleCreateProject}
+          onRename={(name) => setActiveProject(prev => prev && { ...prev, name })}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
+      {/* History Gallery */}
+      {showHistory && (
+        <HistoryGallery
+          projectId={activeProject?.id}
+          onRestore={handleRestoreHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Reference Details Modal */}
+      {editingRefId && refImages.find(img => img.id === editingRefId) && (
+        <ReferenceDetailsModal
+          image={refImages.find(img => img.id === editingRefId)}
+          index={refImages.findIndex(img => img.id === editingRefId)}
+          onSave={(patch: Partial<ReferenceImage>) => updateImage(editingRefId, patch)}
+          onClose={() => setEditingRefId(null)}
+        />
+      )}
+
+      {/* Reference Crop Modal */}
+      {croppingRefId && refImages.find(img => img.id === croppingRefId) && (
+        <ReferenceCropModal
+          image={refImages.find(img => img.id === croppingRefId)!}
+          onApply={(crop: CropRect) => handleCropReference(refImages.find(img => img.id === croppingRefId)!, crop)}
+          onClose={() => setCroppingRefId(null)}
+        />
+      )}
+
+      {/* Prompt Template Modal */}
+      {showTemplateModal && (
+        <PromptTemplateModal
+          templates={templates}
+          selectedId={findTemplate(templates, config.promptTemplateId).id}
+          variables={getPromptVariables()}
+          onSelect={(id: string) => setConfig(prev => ({ ...prev, promptTemplateId: id }))}
+          onCustomTemplatesChange={handleCustomTemplatesChange}
+          onClose={() => setShowTemplateModal(false)}
+        />
+      )}
+
       {/* API Key Modal */}
       {showKeyModal && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-            <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden animate-in zoom-in-95 duration-200 relative">
-               <button 
-                 onClick={() => setShowKeyModal(false)}
-                 className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
-               >
-                 <X className="w-5 h-5" />
-               </button>
-               
-               <div className="p-8">
-                  <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mb-4">
-                     <Key className="w-6 h-6 text-green-600" />
-                  </div>
-                  <h2 className="text-xl font-bold text-slate-900 mb-2">
-                    {keyModalMessage ? "Free Limit Reached" : "API Key Required"}
-                  </h2>
-                  <p className="text-slate-600 text-sm mb-6">
-                    {keyModalMessage || "To generate images, you need to provide your own Google Cloud API Key."}
-                  </p>
-                  
-                  <form onSubmit={handleManualKeySubmit} className="flex flex-col gap-4">
-                      <div>
-                          <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Your API Key</label>
-                          <input 
-                              type="password"
-                              value={userProvidedKey}
-                              onChange={(e) => setUserProvidedKey(e.target.value)}
-                              placeholder="AIzaSy..."
-                              className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:border-green-500 focus:ring-2 focus:ring-green-200 outline-none transition-all"
-                              autoFocus
-                          />
-                      </div>
-                      
-                      <div className="flex items-start gap-2 text-xs text-slate-500 bg-slate-50 p-3 rounded-lg text-left">
-                         <ShieldCheck className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
-                         <p>Your key is stored in browser memory only and is never sent to our servers.</p>
-                      </div>
-
-                      <button 
-                          type="submit"
-                          className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all shadow-lg shadow-green-200 hover:shadow-green-300 mt-2"
-                      >
-                          Save & Continue
-                      </button>
-                  </form>
-                  
-                  <div className="mt-6 pt-6 border-t border-slate-100 text-xs text-center text-slate-400">
-                     <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="underline hover:text-green-600 font-medium">
-                       Get a free API key from Google AI Studio
-                     </a>
-                  </div>
-               </div>
-            </div>
-        </div>
+        <ApiKeyModal
+          provider={provider}
+          keys={apiKeys}
+          activeKeyId={activeKeyId}
+          isPersisted={!!keyPassphrase}
+          message={keyModalMessage}
+          onChange={handleKeysChange}
+          onClose={() => setShowKeyModal(false)}
+        />
       )}
       
       <style>{`
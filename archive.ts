@@ -0,0 +1,170 @@
+import JSZip from 'jszip';
+import { AppConfig, GeneratedSheet, ReferenceImage, StickerAsset } from './types';
+import { dataUrlToBytes, loadImage } from './utils';
+
+export type ExportFormat = 'png' | 'webp';
+
+export interface ExportSettings {
+  projectName: string;
+  filenamePattern: string; // Tokens from FILENAME_TOKENS
+  format: ExportFormat;
+  quality: number; // 0-1, WebP only
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  projectName: 'stickers',
+  filenamePattern: '{project}-{sheet}-{size}',
+  format: 'png',
+  quality: 0.9,
+};
+
+export const FILENAME_TOKENS = [
+  { name: 'project', description: 'Project name' },
+  { name: 'sheet', description: 'Sheet number' },
+  { name: 'version', description: 'Version number of the sheet' },
+  { name: 'size', description: 'Sheet size, e.g. 4x6in' },
+  { name: 'date', description: 'Export date, YYYY-MM-DD' },
+  { name: 'model', description: 'Model used' },
+];
+
+const EXPORT_SETTINGS_KEY = 'sticker_genius_export';
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(EXPORT_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Keep file names portable across operating systems
+const sanitizeFilename = (name: string): string =>
+  name.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/-+/g, '-').replace(/^[-.]+|-+$/g, '') || 'sticker';
+
+// Fill in the {token} placeholders of a filename pattern; unknown tokens are left as-is
+export const formatFilename = (pattern: string, values: Record<string, string | number>): string =>
+  sanitizeFilename(pattern.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? String(values[name]) : match
+  ));
+
+// e.g. 4x6in or 8.27x11.69in
+const sizeToken = (sheet: GeneratedSheet): string =>
+  `${Number(sheet.sheetWidth.toFixed(2))}x${Number(sheet.sheetHeight.toFixed(2))}in`;
+
+// Re-encode a data URL; PNGs are copied as-is so their DPI metadata survives
+const encodeImage = async (src: string, format: ExportFormat, quality: number): Promise<Uint8Array | Blob> => {
+  if (format === 'png' && src.startsWith('data:image/png')) return dataUrlToBytes(src);
+
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0);
+
+  const type = format === 'webp' ? 'image/webp' : 'image/png';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Could not encode ${format.toUpperCase()}.`))),
+      type,
+      quality
+    );
+  });
+};
+
+// SHA-256 of a reference image, so a manifest can be matched to its source files
+export const hashReference = async (ref: ReferenceImage): Promise<string> => {
+  const bytes = dataUrlToBytes(`data:${ref.mimeType};base64,${ref.data}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export interface ArchiveRun {
+  model: string;
+  prompt: string;
+  config: AppConfig;
+  referenceImages: ReferenceImage[];
+}
+
+// Every sheet (plus split stickers, which are transparent cutouts) and a manifest.json sidecar
+export const buildSheetsArchive = async (
+  sheets: GeneratedSheet[],
+  stickersBySheet: Record<string, StickerAsset[]>,
+  run: ArchiveRun,
+  settings: ExportSettings
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const date = new Date().toISOString().slice(0, 10);
+  const extension = settings.format;
+  const used = new Set<string>();
+
+  const uniquePath = (base: string): string => {
+    let path = `${base}.${extension}`;
+    for (let n = 2; used.has(path.toLowerCase()); n++) path = `${base}-${n}.${extension}`;
+    used.add(path.toLowerCase());
+    return path;
+  };
+
+  const files = [];
+  for (let index = 0; index < sheets.length; index++) {
+    const sheet = sheets[index];
+    const base = formatFilename(settings.filenamePattern, {
+      project: settings.projectName,
+      sheet: index + 1,
+      version: sheet.versionIndex + 1,
+      size: sizeToken(sheet),
+      date,
+      model: run.model,
+    });
+
+    const path = uniquePath(base);
+    zip.file(path, await encodeImage(sheet.src, settings.format, settings.quality));
+
+    const stickers: string[] = [];
+    for (const [stickerIndex, sticker] of (stickersBySheet[sheet.id] || []).entries()) {
+      const stickerPath = uniquePath(`${base}-stickers/sticker-${stickerIndex + 1}`);
+      zip.file(stickerPath, await encodeImage(sticker.src, settings.format, settings.quality));
+      stickers.push(stickerPath);
+    }
+
+    files.push({
+      sheet: index + 1,
+      version: sheet.versionIndex + 1,
+      path,
+      isTransparent: sheet.isTransparent,
+      backgroundColor: sheet.isTransparent ? null : sheet.keyColor,
+      widthInches: sheet.sheetWidth,
+      heightInches: sheet.sheetHeight,
+      refinement: sheet.versions[sheet.versionIndex].instruction || null,
+      stickers,
+    });
+  }
+
+  const manifest = {
+    exportedAt: new Date().toISOString(),
+    project: settings.projectName,
+    model: run.model,
+    prompt: run.prompt,
+    config: run.config,
+    format: settings.format,
+    quality: settings.format === 'webp' ? settings.quality : null,
+    references: await Promise.all(run.referenceImages.map(async (ref) => ({
+      name: ref.name,
+      mimeType: ref.mimeType,
+      sha256: await hashReference(ref),
+      captions: ref.captions,
+      stickerCount: ref.stickerCount,
+      note: ref.note,
+    }))),
+    files,
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
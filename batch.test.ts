@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BatchHaltError, CONFIG_COLUMNS, haltsBatch, parseConfigOverrides, parseCsv } from './batch';
+
+test('parseCsv splits rows and cells', () => {
+  assert.deepEqual(parseCsv('customer,image\nacme,a.png\nbeta,b.png'), [
+    ['customer', 'image'],
+    ['acme', 'a.png'],
+    ['beta', 'b.png'],
+  ]);
+});
+
+test('parseCsv keeps commas, newlines and escaped quotes inside quoted cells', () => {
+  assert.deepEqual(parseCsv('note,captions\n"Say ""hi"", then wave","Hi|Bye\nLater"'), [
+    ['note', 'captions'],
+    ['Say "hi", then wave', 'Hi|Bye\nLater'],
+  ]);
+});
+
+test('parseCsv handles CRLF line endings, blank lines and empty cells', () => {
+  assert.deepEqual(parseCsv('a,b,c\r\n\r\n1,,3\r\n,,\r\n'), [
+    ['a', 'b', 'c'],
+    ['1', '', '3'],
+  ]);
+});
+
+test('parseCsv reads a last row without a trailing newline', () => {
+  assert.deepEqual(parseCsv('a,b\n1,2'), [['a', 'b'], ['1', '2']]);
+});
+
+test('parseConfigOverrides types each field and skips empty cells', () => {
+  const overrides = parseConfigOverrides({
+    customer: 'acme',
+    resolution: '4k',
+    backgroundColor: ' #ff00aa ',
+    isTransparent: 'no',
+    numberOfSheets: '2.6',
+    dpi: '600',
+    marginInches: '-1',
+    sheetSize: '',
+  }, 2);
+  assert.deepEqual(overrides, {
+    resolution: '4K',
+    backgroundColor: '#FF00AA',
+    isTransparent: false,
+    numberOfSheets: 3,
+    dpi: 600,
+    marginInches: 0,
+  });
+});
+
+test('parseConfigOverrides names the row and column of an invalid value', () => {
+  assert.throws(() => parseConfigOverrides({ dpi: '72' }, 4), /Manifest row 4, column "dpi": expected one of 150, 300, 600, got "72"/);
+  assert.throws(() => parseConfigOverrides({ isTransparent: 'maybe' }, 2), /column "isTransparent": expected true or false/);
+  assert.throws(() => parseConfigOverrides({ backgroundColor: 'green' }, 2), /expected a #RRGGBB color/);
+  assert.throws(() => parseConfigOverrides({ customWidth: '4in' }, 2), /expected a number/);
+});
+
+test('only known config fields are override columns', () => {
+  assert.ok(CONFIG_COLUMNS.includes('resolution'));
+  assert.ok(!CONFIG_COLUMNS.includes('customer'));
+  assert.deepEqual(parseConfigOverrides({ apiKey: 'secret', matting: '{}' }, 2), {});
+});
+
+test('haltsBatch stops on rejected keys and a spent quota only', () => {
+  assert.equal(haltsBatch(new BatchHaltError('No API key')), true);
+  assert.equal(haltsBatch(Object.assign(new Error('Forbidden'), { status: 403 })), true);
+  assert.equal(haltsBatch(Object.assign(new Error('Daily limit reached'), { code: 'QUOTA_EXCEEDED' })), true);
+  assert.equal(haltsBatch(Object.assign(new Error('Service unavailable'), { status: 503 })), false);
+  assert.equal(haltsBatch(new Error('Invalid API key in message text only')), false);
+});
@@ -0,0 +1,319 @@
+import JSZip from 'jszip';
+import { AppConfig, BatchItem, ProviderId, ReferenceImage, Resolution, SheetSizePreset, LengthUnit, PrintDpi } from './types';
+import { LENGTH_UNITS, PRINT_DPI_OPTIONS, SHEET_SIZE_OPTIONS } from './layout';
+import { IMAGE_PROVIDERS } from './providers';
+import { createId, dataUrlToBytes } from './utils';
+import { PreparedImage, UploadSettings, fileFromUrl, loadUploadSettings, prepareUpload } from './uploads';
+
+// Reference image types the model accepts, by file extension
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+// Separator for several captions in one manifest cell (commas would clash with CSV)
+const CAPTION_SEPARATOR = '|';
+
+export const MANIFEST_COLUMNS = ['customer', 'image', 'name', 'captions', 'stickerCount', 'note'];
+
+const getExtension = (path: string): string => path.split('.').pop()?.toLowerCase() || '';
+
+const isHiddenPath = (path: string): boolean =>
+  path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+// Parse CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+const parseBoolean = (value: string): boolean => {
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', '1', 'y'].includes(normalized)) return true;
+  if (['false', 'no', '0', 'n'].includes(normalized)) return false;
+  throw new Error(`expected true or false, got "${value}"`);
+};
+
+const parseNumber = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`expected a number, got "${value}"`);
+  return parsed;
+};
+
+const parseChoice = <T extends string | number>(value: string, choices: T[]): T => {
+  const match = choices.find(choice => String(choice).toLowerCase() === value.trim().toLowerCase());
+  if (match === undefined) throw new Error(`expected one of ${choices.join(', ')}, got "${value}"`);
+  return match;
+};
+
+// AppConfig fields that can be overridden per manifest row
+const CONFIG_PARSERS: { [K in keyof AppConfig]?: (value: string) => AppConfig[K] } = {
+  providerId: value => parseChoice<ProviderId>(value, IMAGE_PROVIDERS.map(p => p.id)),
+  model: value => value.trim(),
+  resolution: value => parseChoice<Resolution>(value, ['1K', '2K', '4K']),
+  backgroundColor: value => {
+    if (!/^#[0-9a-f]{6}$/i.test(value.trim())) throw new Error(`expected a #RRGGBB color, got "${value}"`);
+    return value.trim().toUpperCase();
+  },
+  isTransparent: parseBoolean,
+  sheetSize: value => parseChoice<SheetSizePreset>(value, [...SHEET_SIZE_OPTIONS.map(o => o.id), 'custom']),
+  customWidth: parseNumber,
+  customHeight: parseNumber,
+  customUnit: value => parseChoice<LengthUnit>(value, LENGTH_UNITS),
+  numberOfSheets: value => Math.max(1, Math.round(parseNumber(value))),
+  dpi: value => parseChoice<PrintDpi>(value, PRINT_DPI_OPTIONS),
+  marginInches: value => Math.max(0, parseNumber(value)),
+  promptTemplateId: value => value.trim(),
+};
+
+const CONFIG_FIELDS = Object.keys(CONFIG_PARSERS) as Array<keyof AppConfig>;
+
+export const CONFIG_COLUMNS: string[] = CONFIG_FIELDS;
+
+// Generic over the field, so the parsed value is checked against that field's type
+const setOverride = <K extends keyof AppConfig>(overrides: Partial<AppConfig>, field: K, value: string) => {
+  const parse = CONFIG_PARSERS[field];
+  if (parse) overrides[field] = parse(value);
+};
+
+// Read the config override columns of one manifest row; empty cells are ignored
+export const parseConfigOverrides = (row: Record<string, string>, rowNumber: number): Partial<AppConfig> => {
+  const overrides: Partial<AppConfig> = {};
+  CONFIG_FIELDS.forEach(field => {
+    const value = row[field];
+    if (value === undefined || !value.trim()) return;
+    try {
+      setOverride(overrides, field, value);
+    } catch (err: any) {
+      throw new Error(`Manifest row ${rowNumber}, column "${field}": ${err.message}`);
+    }
+  });
+  return overrides;
+};
+
+// A failure that fails every remaining item the same way, so the batch stops
+export class BatchHaltError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchHaltError';
+  }
+}
+
+// Rejected credentials (HTTP 401/403) or the proxy's spent daily quota, which has a code but no status
+export const haltsBatch = (err: any): boolean =>
+  err instanceof BatchHaltError || [401, 403].includes(Number(err?.status)) || err?.code === 'QUOTA_EXCEEDED';
+
+type ImageResolver = (path: string) => Promise<File>;
+
+const createReference = (image: PreparedImage, row: Record<string, string>): ReferenceImage => ({
+  id: createId(),
+  data: image.data,
+  mimeType: image.mimeType,
+  hash: image.hash,
+  name: (row.name || '').trim(),
+  captions: (row.captions || '').split(CAPTION_SEPARATOR).map(c => c.trim()).filter(Boolean),
+  stickerCount: Math.max(1, Math.round(Number(row.stickerCount)) || 1),
+  note: (row.note || '').trim(),
+});
+
+const createItem = (customer: string): BatchItem => ({
+  id: createId(),
+  customer,
+  references: [],
+  overrides: {},
+  status: 'pending',
+  sheets: [],
+});
+
+// Group manifest rows by customer; every row adds one reference image, prepared like an upload
+export const parseManifest = async (
+  csvText: string,
+  resolveImage: ImageResolver,
+  settings: UploadSettings
+): Promise<BatchItem[]> => {
+  const [header, ...rows] = parseCsv(csvText);
+  if (!header) throw new Error("The manifest is empty.");
+
+  const columns = header.map(c => c.trim());
+  const unknown = columns.filter(c => c && !MANIFEST_COLUMNS.includes(c) && !CONFIG_COLUMNS.includes(c));
+  if (unknown.length > 0) throw new Error(`Unknown manifest column(s): ${unknown.join(', ')}.`);
+  if (!columns.includes('image')) throw new Error('The manifest needs an "image" column.');
+
+  const items = new Map<string, BatchItem>();
+  for (let r = 0; r < rows.length; r++) {
+    const rowNumber = r + 2; // 1-based, after the header
+    const row: Record<string, string> = {};
+    columns.forEach((column, c) => { row[column] = rows[r][c] || ''; });
+
+    const customer = row.customer?.trim() || 'batch';
+    const item = items.get(customer) || createItem(customer);
+    items.set(customer, item);
+
+    item.overrides = { ...item.overrides, ...parseConfigOverrides(row, rowNumber) };
+    if (!row.image.trim()) continue; // Settings-only row
+
+    try {
+      item.references.push(createReference(await prepareUpload(await resolveImage(row.image.trim()), settings), row));
+    } catch (err: any) {
+      throw new Error(`Manifest row ${rowNumber}: ${err.message}`);
+    }
+  }
+
+  return Array.from(items.values()).filter(item => item.references.length > 0);
+};
+
+// Fetch an image referenced by URL (http(s) or data URL) from a standalone manifest
+const resolveUrlImage: ImageResolver = (url) => fileFromUrl(url, 'image');
+
+const zipEntryFile = async (entry: JSZip.JSZipObject): Promise<File> =>
+  new File([await entry.async('blob')], entry.name.split('/').pop() || entry.name, {
+    type: IMAGE_MIME_TYPES[getExtension(entry.name)] || '',
+  });
+
+// One batch item per top-level folder; images at the root go to an item named after the ZIP
+const parseFolders = async (zip: JSZip, fallbackName: string, settings: UploadSettings): Promise<BatchItem[]> => {
+  const items = new Map<string, BatchItem>();
+  const files = Object.values(zip.files)
+    .filter(entry => !entry.dir && !isHiddenPath(entry.name) && IMAGE_MIME_TYPES[getExtension(entry.name)])
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of files) {
+    const parts = entry.name.split('/');
+    const customer = parts.length > 1 ? parts[0] : fallbackName;
+    const item = items.get(customer) || createItem(customer);
+    items.set(customer, item);
+    item.references.push(createReference(await prepareUpload(await zipEntryFile(entry), settings), {}));
+  }
+
+  return Array.from(items.values());
+};
+
+// Read a ZIP (folders of images, or a manifest.csv next to the images) or a standalone CSV manifest.
+// Images are downscaled and re-encoded with the same settings as uploads.
+export const loadBatchFile = async (file: File, settings: UploadSettings = loadUploadSettings()): Promise<BatchItem[]> => {
+  const extension = getExtension(file.name);
+  let items: BatchItem[];
+
+  if (extension === 'csv') {
+    items = await parseManifest(await file.text(), resolveUrlImage, settings);
+  } else if (extension === 'zip') {
+    const zip = await JSZip.loadAsync(file);
+    const manifest = Object.values(zip.files).find(entry =>
+      !entry.dir && !isHiddenPath(entry.name) && !entry.name.includes('/') && getExtension(entry.name) === 'csv'
+    );
+
+    if (manifest) {
+      items = await parseManifest(await manifest.async('string'), async (path) => {
+        const entry = zip.file(path.replace(/^\.?\//, ''));
+        if (!entry) throw new Error(`"${path}" is not in the ZIP`);
+        if (!IMAGE_MIME_TYPES[getExtension(path)]) throw new Error(`"${path}" is not a supported image type`);
+        return zipEntryFile(entry);
+      }, settings);
+    } else {
+      items = await parseFolders(zip, file.name.replace(/\.zip$/i, ''), settings);
+    }
+  } else {
+    throw new Error("Choose a .zip or .csv file.");
+  }
+
+  if (items.length === 0) throw new Error("No reference images found in this file.");
+  return items;
+};
+
+// Folder name that is safe in a ZIP and unique among the ones already used
+const folderName = (customer: string, used: Set<string>): string => {
+  const base = customer.replace(/[\\/:*?"<>|]+/g, '-').replace(/^\.+/, '').trim() || 'batch';
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}`;
+  used.add(name.toLowerCase());
+  return name;
+};
+
+export interface BatchReport {
+  createdAt: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: Array<{
+    customer: string;
+    folder: string;
+    status: BatchItem['status'];
+    references: number;
+    sheets: string[]; // Paths inside the ZIP
+    overrides: Partial<AppConfig>;
+    error?: string;
+  }>;
+}
+
+// One folder of sheets per customer plus report.json describing every item
+export const buildBatchArchive = async (items: BatchItem[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Set<string>(['report.json']);
+
+  const report: BatchReport = {
+    createdAt: new Date().toISOString(),
+    total: items.length,
+    succeeded: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed').length,
+    items: items.map(item => {
+      const folder = folderName(item.customer, used);
+      const sheets = item.sheets.map((sheet, index) => {
+        const path = `${folder}/sheet-${index + 1}.png`;
+        zip.file(path, dataUrlToBytes(sheet.src));
+        return path;
+      });
+      return {
+        customer: item.customer,
+        folder,
+        status: item.status,
+        references: item.references.length,
+        sheets,
+        overrides: item.overrides,
+        ...(item.error ? { error: item.error } : {}),
+      };
+    }),
+  };
+
+  zip.file('report.json', JSON.stringify(report, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { X, Key, ShieldCheck, Loader2, AlertCircle, Lock, Trash2, CheckCircle2, Circle } from 'lucide-react';
+import { ImageProvider } from '../providers';
+import { NamedApiKey, forgetSavedKeys, hasSavedKeys, maskKey, unlockKeys, validatePassphrase } from '../keys';
+import { createId } from '../utils';
+
+interface ApiKeyModalProps {
+  provider: ImageProvider; // Used to validate new keys
+  keys: NamedApiKey[];
+  activeKeyId: string | null;
+  isPersisted: boolean; // Keys are being saved encrypted on this device
+  message: string; // Shown instead of the default explanation, e.g. when the demo limit is reached
+  // passphrase: a string starts or keeps saving, null stops saving, undefined leaves it as it is
+  onChange: (keys: NamedApiKey[], activeKeyId: string | null, passphrase?: string | null) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function ApiKeyModal({ provider, keys, activeKeyId, isPersisted, message, onChange, onClose }: ApiKeyModalProps) {
+  const [name, setName] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [remember, setRemember] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Saved keys exist but have not been unlocked in this session
+  const isLocked = !isPersisted && hasSavedKeys();
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Something went wrong.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const saved = await unlockKeys(unlockPassphrase);
+      // Keys added before unlocking are kept and saved along with the others
+      const merged = [...saved, ...keys.filter(k => !saved.some(s => s.key === k.key))];
+      await onChange(merged, activeKeyId || merged[0]?.id || null, unlockPassphrase);
+      setUnlockPassphrase('');
+      if (!activeKeyId && merged.length > 0) onClose();
+    });
+  };
+
+  const handleForget = () => {
+    if (!confirm("Delete the saved keys from this device? Keys in use right now stay available until you reload.")) return;
+    run(async () => {
+      forgetSavedKeys();
+      await onChange(keys, activeKeyId, null);
+    });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = apiKey.trim();
+    if (!trimmed) {
+      setError("Paste an API key first.");
+      return;
+    }
+    if (keys.some(k => k.key === trimmed)) {
+      setError("This key is already in the list.");
+      return;
+    }
+    const startsSaving = remember && !isPersisted;
+    if (startsSaving) {
+      const passphraseError = validatePassphrase(passphrase);
+      if (passphraseError) {
+        setError(passphraseError);
+        return;
+      }
+      if (hasSavedKeys() && !confirm("This replaces the keys already saved on this device. Continue?")) return;
+    }
+
+    run(async () => {
+      await provider.validateKey(trimmed);
+      const added: NamedApiKey = { id: createId(), name: name.trim() || `Key ${keys.length + 1}`, key: trimmed };
+      await onChange([...keys, added], added.id, startsSaving ? passphrase : undefined);
+      setName('');
+      setApiKey('');
+      setPassphrase('');
+      onClose();
+    });
+  };
+
+  const handleRemove = (id: string) => {
+    const next = keys.filter(k => k.id !== id);
+    run(() => onChange(next, activeKeyId === id ? next[0]?.id || null : activeKeyId));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto animate-in zoom-in-95 duration-200 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-8">
+          <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mb-4">
+            <Key className="w-6 h-6 text-green-600" />
+          </div>
+          <h2 className="text-xl font-bold text-slate-900 mb-2">
+            {message ? "Free Limit Reached" : keys.length > 0 ? "API Keys" : "API Key Required"}
+          </h2>
+          <p className="text-slate-600 text-sm mb-6">
+            {message || "To generate images, you need to provide your own Google Cloud API Key."}
+          </p>
+
+          {isLocked && (
+            <form onSubmit={handleUnlock} className="mb-6 p-4 rounded-xl border border-slate-200 bg-slate-50 flex flex-col gap-2">
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-1.5">
+                <Lock className="w-3.5 h-3.5" /> Saved Keys
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={(e) => setUnlockPassphrase(e.target.value)}
+                  placeholder="Passphrase"
+                  className="min-w-0 flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+                  autoFocus
+                />
+                <button
+                  type="submit"
+                  disabled={isBusy || !unlockPassphrase}
+                  className="px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  Unlock
+                </button>
+              </div>
+              <button type="button" onClick={handleForget} className="text-xs text-slate-400 hover:text-red-600 underline self-start">
+                Forget saved keys
+              </button>
+            </form>
+          )}
+
+          {keys.length > 0 && (
+            <div className="mb-6 flex flex-col gap-2">
+              {keys.map((k) => (
+                <div
+                  key={k.id}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm ${
+                    k.id === activeKeyId ? 'border-green-500 bg-green-50' : 'border-slate-200'
+                  }`}
+                >
+                  <button
+                    onClick={() => run(() => onChange(keys, k.id))}
+                    className="flex items-center gap-2 min-w-0 flex-1 text-left"
+                    title="Use this key"
+                  >
+                    {k.id === activeKeyId
+                      ? <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
+                      : <Circle className="w-4 h-4 text-slate-400 shrink-0" />}
+                    <span className="font-medium text-slate-800 truncate">{k.name}</span>
+                    <span className="font-mono text-xs text-slate-400">{maskKey(k.key)}</span>
+                  </button>
+                  <button
+                    onClick={() => handleRemove(k.id)}
+                    className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    title="Remove key"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {isPersisted && (
+                <button onClick={handleForget} className="text-xs text-slate-400 hover:text-red-600 underline self-start">
+                  Stop saving keys on this device
+                </button>
+              )}
+            </div>
+          )}
+
+          <form onSubmit={handleAdd} className="flex flex-col gap-4">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">
+                {keys.length > 0 ? "Add Another Key" : "Your API Key"}
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name, e.g. Personal or Client A"
+                className="w-full px-4 py-2 mb-2 rounded-lg border border-slate-300 text-sm focus:border-green-500 focus:ring-2 focus:ring-green-200 outline-none transition-all"
+              />
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="AIzaSy..."
+                className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:border-green-500 focus:ring-2 focus:ring-green-200 outline-none transition-all"
+                autoFocus={!isLocked}
+              />
+            </div>
+
+            {!isPersisted && (
+              <div>
+                <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={remember}
+                    onChange={(e) => setRemember(e.target.checked)}
+                    className="accent-green-600"
+                  />
+                  Remember on this device
+                </label>
+                {remember && (
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Passphrase to encrypt your keys"
+                    className="w-full mt-2 px-4 py-2 rounded-lg border border-slate-300 text-sm focus:border-green-500 focus:ring-2 focus:ring-green-200 outline-none transition-all"
+                  />
+                )}
+              </div>
+            )}
+
+            <div className="flex items-start gap-2 text-xs text-slate-500 bg-slate-50 p-3 rounded-lg text-left">
+              <ShieldCheck className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
+              <p>
+                {isPersisted || remember
+                  ? "Keys are encrypted with your passphrase before they are saved in this browser. The passphrase is never stored."
+                  : "Your key is stored in browser memory only and is never sent to our servers."}
+              </p>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100 flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all shadow-lg shadow-green-200 hover:shadow-green-300 mt-2 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isBusy ? 'Checking key...' : 'Save & Continue'}
+            </button>
+          </form>
+
+          <div className="mt-6 pt-6 border-t border-slate-100 text-xs text-center text-slate-400">
+            <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="underline hover:text-green-600 font-medium">
+              Get a free API key from Google AI Studio
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import React, { useState, useRef } from 'react';
+import { X, Layers, Upload, Play, Square, Download, Loader2, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import { BatchItem, GeneratedSheet } from '../types';
+import { loadBatchFile, buildBatchArchive, haltsBatch, MANIFEST_COLUMNS, CONFIG_COLUMNS } from '../batch';
+import { downloadBlob } from '../utils';
+
+export interface BatchItemResult {
+  sheets: GeneratedSheet[]; // New sheets from this run
+  error?: string; // Set when some sheets failed
+  halted?: boolean; // A sheet failed in a way every later item would too, see haltsBatch
+}
+
+interface BatchModalProps {
+  defaultSheetCount: number;
+  onRunItem: (item: BatchItem, signal: AbortSignal) => Promise<BatchItemResult>;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  pending: 'bg-slate-100 text-slate-500',
+  running: 'bg-green-100 text-green-700',
+  done: 'bg-green-600 text-white',
+  failed: 'bg-red-100 text-red-600',
+};
+
+export default function BatchModal({ defaultSheetCount, onRunItem, onClose }: BatchModalProps) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Latest items for the sequential loop, which outlives a single render
+  const itemsRef = useRef<BatchItem[]>([]);
+
+  const updateItems = (next: BatchItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const patchItem = (id: string, patch: Partial<BatchItem>) =>
+    updateItems(itemsRef.current.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      updateItems(await loadBatchFile(file));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to read the batch file.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Run every item that is not done yet, one after the other. Failures are recorded and skipped.
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      for (const { id } of itemsRef.current) {
+        if (controller.signal.aborted) break;
+        const item = itemsRef.current.find(i => i.id === id);
+        if (!item || item.status === 'done') continue;
+
+        patchItem(id, { status: 'running', error: undefined });
+        try {
+          const result = await onRunItem(item, controller.signal);
+          const sheets = [...item.sheets, ...result.sheets];
+          if (controller.signal.aborted) {
+            patchItem(id, { status: 'pending', sheets });
+          } else {
+            patchItem(id, { status: result.error ? 'failed' : 'done', error: result.error, sheets });
+          }
+          if (result.halted) {
+            setError(result.error || 'Generation failed.');
+            break;
+          }
+        } catch (err: any) {
+          console.error(err);
+          patchItem(id, { status: 'failed', error: err.message || 'Generation failed.' });
+          // Missing keys or exhausted quotas fail every remaining item the same way
+          if (haltsBatch(err)) {
+            setError(err.message);
+            break;
+          }
+        }
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await buildBatchArchive(items), `sticker-batch-${Date.now()}.zip`);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to build the ZIP.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const hasStarted = items.some(item => item.status !== 'pending' || item.sheets.length > 0);
+  const hasResults = items.some(item => item.sheets.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          disabled={isRunning}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+          title={isRunning ? 'Stop the batch before closing' : 'Close'}
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <Layers className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Batch Mode</h2>
+              <p className="text-slate-500 text-xs">
+                {items.length > 0
+                  ? `${items.length} pack${items.length !== 1 ? 's' : ''} · ${doneCount} done · ${failedCount} failed`
+                  : 'Generate sheets for many customers in one go.'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <label className={`px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5 ${
+              isRunning ? 'opacity-50 pointer-events-none' : 'cursor-pointer'
+            }`}>
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Load ZIP or CSV
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleFile}
+                accept=".zip,.csv,application/zip,text/csv"
+                className="hidden"
+              />
+            </label>
+            {isRunning ? (
+              <button
+                onClick={handleStop}
+                className="px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-red-50 hover:text-red-600 transition-colors flex items-center gap-1.5"
+              >
+                <Square className="w-4 h-4" /> Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={items.length === 0 || doneCount === items.length}
+                className="px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="w-4 h-4" /> {hasStarted ? 'Resume' : 'Start'}
+              </button>
+            )}
+            <button
+              onClick={handleDownload}
+              disabled={!hasResults || isExporting}
+              className="ml-auto px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Download Results ZIP
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="p-3 mb-4 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100 flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {items.length === 0 ? (
+            <div className="text-sm text-slate-500 space-y-2">
+              <p>
+                <strong>ZIP of folders:</strong> one folder per customer, containing that customer's reference images.
+                The current configuration is used for every pack.
+              </p>
+              <p>
+                <strong>CSV manifest:</strong> one row per reference image with the columns{' '}
+                <code className="text-xs bg-slate-100 px-1 rounded">{MANIFEST_COLUMNS.join(', ')}</code>.
+                Put it at the root of a ZIP with image paths relative to the ZIP, or load it on its own with image URLs.
+                Separate several captions with <code className="text-xs bg-slate-100 px-1 rounded">|</code>.
+              </p>
+              <p>
+                Optional columns override the configuration per customer:{' '}
+                <code className="text-xs bg-slate-100 px-1 rounded">{CONFIG_COLUMNS.join(', ')}</code>.
+              </p>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {items.map((item) => {
+                const target = item.overrides.numberOfSheets ?? defaultSheetCount;
+                const overrides = Object.entries(item.overrides).map(([key, value]) => `${key}=${value}`).join(', ');
+                return (
+                  <div key={item.id} className="border border-slate-200 rounded-xl p-3 flex items-start gap-3">
+                    <div className="flex -space-x-2 shrink-0">
+                      {item.references.slice(0, 3).map((ref) => (
+                        <img
+                          key={ref.id}
+                          src={`data:${ref.mimeType};base64,${ref.data}`}
+                          alt=""
+                          className="w-10 h-10 rounded-lg object-cover border-2 border-white"
+                        />
+                      ))}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-semibold text-slate-800 truncate">{item.customer}</div>
+                      <div className="text-xs text-slate-500 truncate">
+                        {item.references.length} reference{item.references.length !== 1 ? 's' : ''} · {item.sheets.length}/{target} sheet{target !== 1 ? 's' : ''}
+                        {overrides && ` · ${overrides}`}
+                      </div>
+                      {item.error && <p className="text-xs text-red-600 mt-1 break-words">{item.error}</p>}
+                    </div>
+                    <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wider flex items-center gap-1 ${STATUS_STYLES[item.status]}`}>
+                      {item.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                      {item.status === 'done' && <CheckCircle2 className="w-3 h-3" />}
+                      {item.status === 'pending' && <Clock className="w-3 h-3" />}
+                      {item.status}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, Archive, Loader2, AlertCircle, Download } from 'lucide-react';
+import { GeneratedSheet, StickerAsset } from '../types';
+import {
+  ArchiveRun,
+  ExportFormat,
+  ExportSettings,
+  FILENAME_TOKENS,
+  buildSheetsArchive,
+  formatFilename,
+  loadExportSettings,
+  saveExportSettings
+} from '../archive';
+import { downloadBlob } from '../utils';
+
+interface BulkExportModalProps {
+  sheets: GeneratedSheet[];
+  stickersBySheet: Record<string, StickerAsset[]>;
+  run: ArchiveRun;
+  onClose: () => void;
+}
+
+export default function BulkExportModal({ sheets, stickersBySheet, run, onClose }: BulkExportModalProps) {
+  const [settings, setSettings] = useState<ExportSettings>(loadExportSettings);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const stickerCount = sheets.reduce((sum, sheet) => sum + (stickersBySheet[sheet.id]?.length || 0), 0);
+  const previewName = formatFilename(settings.filenamePattern, {
+    project: settings.projectName,
+    sheet: 1,
+    version: 1,
+    size: '4x6in',
+    date: new Date().toISOString().slice(0, 10),
+    model: run.model,
+  });
+
+  const handleExport = async () => {
+    setError(null);
+    if (!settings.filenamePattern.trim()) {
+      setError("Filename pattern cannot be empty.");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      saveExportSettings(settings);
+      const blob = await buildSheetsArchive(sheets, stickersBySheet, run, settings);
+      downloadBlob(blob, `${formatFilename('{project}-{date}', {
+        project: settings.projectName,
+        date: new Date().toISOString().slice(0, 10),
+      })}.zip`);
+      onClose();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to build the ZIP.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden animate-in zoom-in-95 duration-200 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-8">
+          <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mb-4">
+            <Archive className="w-6 h-6 text-green-600" />
+          </div>
+          <h2 className="text-xl font-bold text-slate-900 mb-2">Download All</h2>
+          <p className="text-slate-600 text-sm mb-6">
+            {sheets.length} sheet{sheets.length !== 1 ? 's' : ''}
+            {stickerCount > 0 && ` and ${stickerCount} split sticker${stickerCount !== 1 ? 's' : ''}`} in one ZIP,
+            with a manifest.json of the settings, prompt and reference hashes.
+          </p>
+
+          <div className="space-y-5">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Project Name</label>
+              <input
+                type="text"
+                value={settings.projectName}
+                onChange={(e) => update({ projectName: e.target.value })}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+              />
+            </div>
+
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Filename Pattern</label>
+              <input
+                type="text"
+                value={settings.filenamePattern}
+                onChange={(e) => update({ filenamePattern: e.target.value })}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm font-mono outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+              />
+              <p className="text-xs text-slate-400 mt-1">
+                {FILENAME_TOKENS.map(token => (
+                  <span key={token.name} title={token.description} className="mr-2 font-mono">{`{${token.name}}`}</span>
+                ))}
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                e.g. <span className="font-mono">{previewName}.{settings.format}</span>
+              </p>
+            </div>
+
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Format</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['png', 'webp'] as ExportFormat[]).map((f) => (
+                  <button
+                    key={f}
+                    onClick={() => update({ format: f })}
+                    className={`py-2 rounded-lg text-sm font-medium transition-all ${
+                      settings.format === f
+                        ? 'bg-green-600 text-white shadow-md shadow-green-200'
+                        : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {f.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              {settings.format === 'webp' && (
+                <div className="mt-3">
+                  <label className="text-xs text-slate-500 flex justify-between mb-1">
+                    <span>Quality</span><span>{Math.round(settings.quality * 100)}%</span>
+                  </label>
+                  <input
+                    type="range"
+                    min={10}
+                    max={100}
+                    value={Math.round(settings.quality * 100)}
+                    onChange={(e) => update({ quality: parseInt(e.target.value, 10) / 100 })}
+                    className="w-full accent-green-600"
+                  />
+                  <p className="text-xs text-slate-400 mt-1">WebP files do not carry the print DPI; use PNG for printing.</p>
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100 flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all shadow-lg shadow-green-200 hover:shadow-green-300 flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              {isExporting ? 'Building ZIP...' : 'Download ZIP'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { X, GitCompare } from 'lucide-react';
+import { GeneratedSheet, PromptTemplate } from '../types';
+import { diffParams } from '../variation';
+
+interface CompareModalProps {
+  a: GeneratedSheet;
+  b: GeneratedSheet;
+  labelA: string;
+  labelB: string;
+  templates: PromptTemplate[];
+  onClose: () => void;
+}
+
+export default function CompareModal({ a, b, labelA, labelB, templates, onClose }: CompareModalProps) {
+  const differences = a.params && b.params ? diffParams(a.params, b.params, templates) : null;
+  const onlySeed = differences?.length === 1 && differences[0].label === 'Seed';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[95vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <GitCompare className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Compare Sheets</h2>
+              <p className="text-slate-500 text-xs">Side by side, with the settings that differ.</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            {[{ sheet: a, label: labelA, tag: 'A' }, { sheet: b, label: labelB, tag: 'B' }].map(({ sheet, label, tag }) => (
+              <div key={tag} className="flex flex-col items-center gap-2">
+                <span className="text-sm font-semibold text-slate-700">
+                  <span className="px-1.5 py-0.5 mr-1.5 rounded bg-green-600 text-white text-xs">{tag}</span>
+                  {label}
+                </span>
+                <div className="w-full bg-[url('https://www.transparenttextures.com/patterns/white-diamond.png')] bg-slate-50 rounded-xl p-2 flex items-center justify-center">
+                  <img src={sheet.src} alt={label} className="max-w-full max-h-[55vh] object-contain shadow-sm" />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {differences === null ? (
+            <p className="text-sm text-slate-500">
+              Settings were not recorded for one of these sheets (composed sheets and older history), so they cannot be compared.
+            </p>
+          ) : differences.length === 0 ? (
+            <p className="text-sm text-slate-500">Both sheets were generated with identical settings and seed.</p>
+          ) : (
+            <>
+              {onlySeed && (
+                <p className="text-sm text-slate-500 mb-3">Only the seed differs, so the differences are random variation.</p>
+              )}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-100">
+                    <th className="py-2 font-medium">Setting</th>
+                    <th className="py-2 font-medium">A</th>
+                    <th className="py-2 font-medium">B</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {differences.map(diff => (
+                    <tr key={diff.label} className="border-b border-slate-50">
+                      <td className="py-2 text-slate-500">{diff.label}</td>
+                      <td className="py-2 text-slate-900 font-medium">{diff.a}</td>
+                      <td className="py-2 text-slate-900 font-medium">{diff.b}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { X, Scissors, Loader2, AlertCircle, FileDown } from 'lucide-react';
+import { GeneratedSheet } from '../types';
+import { CutFileFormat, DEFAULT_CUTLINE_OPTIONS } from '../cutline';
+import { exportCutFile } from '../processing';
+import { downloadBlob } from '../utils';
+import { formatSheetSize } from '../layout';
+
+interface CutlineExportModalProps {
+  sheet: GeneratedSheet;
+  sheetIndex: number;
+  onClose: () => void;
+}
+
+const MM_PER_INCH = 25.4;
+
+export default function CutlineExportModal({ sheet, sheetIndex, onClose }: CutlineExportModalProps) {
+  const [format, setFormat] = useState<CutFileFormat>('svg');
+  const [bleedMm, setBleedMm] = useState(Number((DEFAULT_CUTLINE_OPTIONS.bleedInches * MM_PER_INCH).toFixed(1)));
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setError(null);
+    if (!Number.isFinite(bleedMm) || bleedMm < 0 || bleedMm > 10) {
+      setError("Bleed must be between 0 and 10 mm.");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await exportCutFile(sheet, format, bleedMm / MM_PER_INCH);
+      downloadBlob(blob, `sticker-sheet-${sheetIndex + 1}-cut-${Date.now()}.${format}`);
+      onClose();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to export cut file.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden animate-in zoom-in-95 duration-200 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-8">
+          <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mb-4">
+            <Scissors className="w-6 h-6 text-green-600" />
+          </div>
+          <h2 className="text-xl font-bold text-slate-900 mb-2">Export Cut File</h2>
+          <p className="text-slate-600 text-sm mb-6">
+            Sheet #{sheetIndex + 1} at {formatSheetSize({ width: sheet.sheetWidth, height: sheet.sheetHeight })}, with the artwork on one layer
+            and a "CutContour" path on another.
+          </p>
+
+          <div className="space-y-5">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Format</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['svg', 'pdf'] as CutFileFormat[]).map((f) => (
+                  <button
+                    key={f}
+                    onClick={() => setFormat(f)}
+                    className={`py-2 rounded-lg text-sm font-medium transition-all ${
+                      format === f
+                        ? 'bg-green-600 text-white shadow-md shadow-green-200'
+                        : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                    }`}
+                  >
+                    {f.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-400 mt-2">
+                {format === 'svg'
+                  ? 'For Cricut Design Space, Silhouette Studio and Inkscape.'
+                  : 'For print shops: the cut path uses a CutContour spot color.'}
+              </p>
+            </div>
+
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">
+                Bleed (mm outside the sticker edge)
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                value={bleedMm}
+                onChange={(e) => setBleedMm(parseFloat(e.target.value))}
+                className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:border-green-500 focus:ring-2 focus:ring-green-200 outline-none transition-all"
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100 flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all shadow-lg shadow-green-200 hover:shadow-green-300 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExporting
+                ? <Loader2 className="w-5 h-5 animate-spin" />
+                : <FileDown className="w-5 h-5" />}
+              {isExporting ? 'Tracing Outlines...' : `Export ${format.toUpperCase()}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, Search, Trash2, RotateCcw, Download, Loader2 } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { listHistory, deleteHistoryEntry, matchesHistorySearch, HISTORY_QUOTA_BYTES } from '../history';
+import { downloadDataUrl } from '../utils';
+
+interface HistoryGalleryProps {
+  projectId?: string; // Offers a filter to the runs of the open project
+  onRestore: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function HistoryGallery({ projectId, onRestore, onClose }: HistoryGalleryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [projectOnly, setProjectOnly] = useState(!!projectId);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listHistory()
+      .then(setEntries)
+      .catch((err) => {
+        console.error("Failed to load history", err);
+        setError("Could not open the local history database.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => prev.filter(e => e.id !== id));
+    } catch (err) {
+      console.error("Failed to delete history entry", err);
+      setError("Could not delete this entry.");
+    }
+  };
+
+  const visible = entries.filter(entry =>
+    matchesHistorySearch(entry, query) && (!projectOnly || !projectId || entry.projectId === projectId));
+  const usedBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <History className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Generation History</h2>
+              <p className="text-slate-500 text-xs">
+                {entries.length} run{entries.length !== 1 ? 's' : ''} · {formatMegabytes(usedBytes)} of {formatMegabytes(HISTORY_QUOTA_BYTES)} used. Oldest runs are removed when full.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by character, caption, prompt or date..."
+                className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+              />
+            </div>
+            {projectId && (
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-600 shrink-0 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={projectOnly}
+                  onChange={(e) => setProjectOnly(e.target.checked)}
+                  className="w-4 h-4 accent-green-600"
+                />
+                This project only
+              </label>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="p-3 mb-4 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12 text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-12">
+              {entries.length === 0 ? 'No generations saved yet.' : 'No runs match your search.'}
+            </p>
+          ) : (
+            <div className="flex flex-col gap-4">
+              {visible.map((entry) => (
+                <div key={entry.id} className="border border-slate-200 rounded-xl p-4">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold text-slate-800">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </div>
+                      <div className="text-xs text-slate-500 truncate">
+                        {entry.model} · {entry.config.resolution} · {entry.sheets.length} sheet{entry.sheets.length !== 1 ? 's' : ''} ·{' '}
+                        {entry.referenceImages.map(ref => ref.name).filter(Boolean).join(', ') || `${entry.referenceImages.length} reference(s)`}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => onRestore(entry)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-green-600 text-white hover:bg-green-700 transition-colors flex items-center gap-1.5"
+                        title="Restore the settings and reference images of this run"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" /> Restore Settings
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        className="p-1.5 rounded-lg bg-slate-100 text-slate-500 hover:bg-red-50 hover:text-red-600 transition-colors"
+                        title="Delete run"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-3 overflow-x-auto pb-1">
+                    {entry.sheets.map((sheet, index) => (
+                      <div key={sheet.id} className="relative group shrink-0">
+                        <img
+                          src={sheet.src}
+                          alt={`Sheet ${index + 1}`}
+                          className="h-32 rounded-lg border border-slate-200 object-contain bg-slate-50"
+                        />
+                        <button
+                          onClick={() => downloadDataUrl(sheet.src, `sticker-sheet-${index + 1}-${entry.createdAt}.png`)}
+                          className="absolute top-1 right-1 p-1 bg-white/80 backdrop-blur-sm rounded-full text-green-600 hover:bg-green-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Download sheet"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
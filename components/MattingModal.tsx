@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { X, Eraser, Loader2 } from 'lucide-react';
+import { GeneratedSheet, MattingOptions } from '../types';
+import { MAX_COLOR_DISTANCE } from '../matting';
+import { processPixels } from '../processing';
+import { getImageData, imageDataToDataUrl } from '../utils';
+
+interface MattingModalProps {
+  sheet: GeneratedSheet;
+  sheetIndex: number;
+  options: MattingOptions;
+  isApplying: boolean;
+  onApply: (options: MattingOptions) => void;
+  onClose: () => void;
+}
+
+// Longest side of the preview; the final sheet is re-processed at full size on apply
+const PREVIEW_SIZE = 640;
+
+const CHECKERBOARD = {
+  backgroundImage: 'repeating-conic-gradient(#E2E8F0 0% 25%, #FFFFFF 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+export default function MattingModal({ sheet, sheetIndex, options, isApplying, onApply, onClose }: MattingModalProps) {
+  const [draft, setDraft] = useState<MattingOptions>(options);
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [beforeSrc, setBeforeSrc] = useState('');
+  const [afterSrc, setAfterSrc] = useState('');
+  const [keyedColor, setKeyedColor] = useState('');
+  const [split, setSplit] = useState(50);
+  const [error, setError] = useState<string | null>(null);
+
+  const rawSrc = sheet.versions[sheet.versionIndex].rawSrc;
+
+  useEffect(() => {
+    getImageData(rawSrc, PREVIEW_SIZE)
+      .then((pixels) => {
+        setSource(pixels);
+        setBeforeSrc(imageDataToDataUrl(pixels));
+      })
+      .catch((err) => {
+        console.error("Failed to load sheet for preview", err);
+        setError("Could not load this sheet for preview.");
+      });
+  }, [rawSrc]);
+
+  // Re-matte a copy of the preview in the image worker whenever a setting changes
+  useEffect(() => {
+    if (!source) return;
+    let stale = false;
+    const copy = { data: new Uint8ClampedArray(source.data), width: source.width, height: source.height };
+    processPixels(copy, [{ type: 'matte', color: sheet.keyColor, options: draft }])
+      .then(({ pixels, keyColors }) => {
+        if (stale) return;
+        setKeyedColor(keyColors[0]);
+        setAfterSrc(imageDataToDataUrl(pixels));
+        setError(null);
+      })
+      .catch((err) => {
+        if (stale) return;
+        console.error("Failed to preview background removal", err);
+        setError("Could not preview background removal with these settings.");
+      });
+    return () => { stale = true; };
+  }, [source, draft, sheet.keyColor]);
+
+  const update = (patch: Partial<MattingOptions>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+          <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+            <Eraser className="w-5 h-5 text-green-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Background Removal</h2>
+            <p className="text-slate-500 text-xs">
+              Sheet #{sheetIndex + 1}. Move the slider under the preview to compare before and after.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-[1fr_260px]">
+          {/* Before / After */}
+          <div className="p-6 flex flex-col items-center justify-center bg-slate-50">
+            {error ? (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100">{error}</div>
+            ) : !beforeSrc || !afterSrc ? (
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+            ) : (
+              <>
+                <div className="relative select-none rounded-lg overflow-hidden shadow" style={CHECKERBOARD}>
+                  <img src={beforeSrc} alt="Before" className="block max-w-full max-h-[55vh]" />
+                  <img
+                    src={afterSrc}
+                    alt="After"
+                    className="absolute inset-0 w-full h-full"
+                    style={{ clipPath: `inset(0 0 0 ${split}%)`, ...CHECKERBOARD }}
+                  />
+                  <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow" style={{ left: `${split}%` }} />
+                  <span className="absolute top-2 left-2 text-[10px] font-semibold bg-black/50 text-white px-1.5 py-0.5 rounded">Before</span>
+                  <span className="absolute top-2 right-2 text-[10px] font-semibold bg-black/50 text-white px-1.5 py-0.5 rounded">After</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={split}
+                  onChange={(e) => setSplit(parseInt(e.target.value, 10))}
+                  className="w-full max-w-md mt-4 accent-green-600"
+                />
+              </>
+            )}
+          </div>
+
+          {/* Settings */}
+          <div className="p-6 space-y-5 border-l border-slate-100">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 flex justify-between">
+                <span>Fully Transparent Below</span><span>{draft.innerTolerance}</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_COLOR_DISTANCE}
+                value={draft.innerTolerance}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  update({ innerTolerance: value, outerTolerance: Math.max(value, draft.outerTolerance) });
+                }}
+                className="w-full accent-green-600"
+              />
+            </div>
+
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 flex justify-between">
+                <span>Fully Opaque Above</span><span>{draft.outerTolerance}</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_COLOR_DISTANCE}
+                value={draft.outerTolerance}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  update({ outerTolerance: value, innerTolerance: Math.min(value, draft.innerTolerance) });
+                }}
+                className="w-full accent-green-600"
+              />
+              <p className="text-xs text-slate-400 mt-1">Pixels in between get a soft edge.</p>
+            </div>
+
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 flex justify-between">
+                <span>Spill Suppression</span><span>{Math.round(draft.spillStrength * 100)}%</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(draft.spillStrength * 100)}
+                onChange={(e) => update({ spillStrength: parseInt(e.target.value, 10) / 100 })}
+                className="w-full accent-green-600"
+              />
+            </div>
+
+            <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.floodFill}
+                onChange={(e) => update({ floodFill: e.target.checked })}
+                className="mt-0.5 accent-green-600"
+              />
+              <span>
+                Only remove background touching the sheet edge
+                <span className="block text-xs text-slate-400">Keeps key-colored areas inside stickers.</span>
+              </span>
+            </label>
+
+            <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.autoDetect}
+                onChange={(e) => update({ autoDetect: e.target.checked })}
+                className="mt-0.5 accent-green-600"
+              />
+              <span>
+                Detect background color from edges
+                {keyedColor && (
+                  <span className="flex items-center gap-1.5 text-xs text-slate-400">
+                    <span className="w-3 h-3 rounded-sm border border-slate-200" style={{ backgroundColor: keyedColor }} />
+                    Keying {keyedColor}
+                  </span>
+                )}
+              </span>
+            </label>
+
+            <button
+              onClick={() => onApply(draft)}
+              disabled={isApplying || !source}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all shadow-lg shadow-green-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApplying && <Loader2 className="w-4 h-4 animate-spin" />}
+              Apply to Sheet
+            </button>
+            <p className="text-xs text-slate-400 text-center">Also used for new sheets.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { AppConfig, SavedPreset } from '../types';
+import { loadPresets, upsertPreset, deletePreset } from '../presets';
+
+interface PresetManagerProps {
+  config: AppConfig;
+  onApply: (preset: SavedPreset) => void;
+}
+
+export default function PresetManager({ config, onApply }: PresetManagerProps) {
+  const [presets, setPresets] = useState<SavedPreset[]>(() => loadPresets());
+  const [selectedId, setSelectedId] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    const next = upsertPreset(name, config);
+    setPresets(next);
+    setSelectedId(next.find(p => p.name === name)?.id || '');
+    setNewName('');
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    setPresets(deletePreset(selectedId));
+    setSelectedId('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          aria-label="Saved presets"
+          className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm bg-white outline-none focus:border-green-500"
+        >
+          <option value="">{presets.length ? 'Load a saved preset...' : 'No saved presets yet'}</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDelete}
+          disabled={!selectedId}
+          className="p-2 rounded-lg bg-slate-50 text-slate-500 hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Delete preset"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Preset name, e.g. Etsy A5 sheets"
+          className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="px-3 py-2 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+        >
+          <Save className="w-4 h-4" />
+          Save
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FolderOpen, Plus, Upload, Download, Copy, Trash2, Pencil, Check, Loader2 } from 'lucide-react';
+import { Project } from '../types';
+import {
+  deleteProject,
+  duplicateProject,
+  exportProject,
+  importProject,
+  listProjects,
+  saveProject,
+  uniqueProjectName,
+  estimateProjectSize,
+} from '../projects';
+import { downloadBlob } from '../utils';
+
+interface ProjectsModalProps {
+  activeProjectId: string | null;
+  onOpen: (project: Project) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void; // The active project was renamed
+  onClose: () => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+
+export default function ProjectsModal({ activeProjectId, onOpen, onCreate, onRename, onClose }: ProjectsModalProps) {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Failed to load projects", err);
+      setError("Could not open the local project database.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(uniqueProjectName(name, projects));
+  };
+
+  const handleRename = async (project: Project) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name || name === project.name) return;
+    const unique = uniqueProjectName(name, projects.filter(p => p.id !== project.id));
+    try {
+      await saveProject({ ...project, name: unique });
+      if (project.id === activeProjectId) onRename(unique);
+      await refresh();
+    } catch (err) {
+      console.error("Failed to rename project", err);
+      setError("Could not rename the project.");
+    }
+  };
+
+  const handleDuplicate = async (project: Project) => {
+    setBusyId(project.id);
+    try {
+      await saveProject(duplicateProject(project, uniqueProjectName(`${project.name} copy`, projects)));
+      await refresh();
+    } catch (err) {
+      console.error("Failed to duplicate project", err);
+      setError("Could not duplicate the project. Storage may be full.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Delete "${project.name}" and its generation history? This cannot be undone.`)) return;
+    setBusyId(project.id);
+    try {
+      await deleteProject(project.id);
+      await refresh();
+    } catch (err) {
+      console.error("Failed to delete project", err);
+      setError("Could not delete the project.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleExport = async (project: Project) => {
+    setBusyId(project.id);
+    try {
+      downloadBlob(new Blob([await exportProject(project)], { type: 'application/json' }), `${slugify(project.name)}.stickergenius.json`);
+    } catch (err) {
+      console.error("Failed to export project", err);
+      setError("Could not export the project.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setBusyId('import');
+    try {
+      await importProject(await file.text(), projects);
+      await refresh();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Could not import the project.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <FolderOpen className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Projects</h2>
+              <p className="text-slate-500 text-xs">
+                Each project keeps its own references, settings, results and history. Changes are saved automatically.
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <form onSubmit={handleCreate} className="flex-1 flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New project name, e.g. a client"
+                className="min-w-0 flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" /> Create
+              </button>
+            </form>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              disabled={busyId !== null}
+              className="px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+              title="Open a project file exported from this app"
+            >
+              {busyId === 'import' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Import
+            </button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="p-3 mb-4 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100">{error}</div>
+          )}
+          {isLoading ? (
+            <div className="flex justify-center py-12 text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {projects.map(project => {
+                const isActive = project.id === activeProjectId;
+                return (
+                  <li
+                    key={project.id}
+                    className={`flex items-center gap-3 p-3 rounded-xl border ${isActive ? 'border-green-500 bg-green-50/50' : 'border-slate-200'}`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      {renamingId === project.id ? (
+                        <form
+                          onSubmit={(e) => { e.preventDefault(); handleRename(project); }}
+                          className="flex gap-1"
+                        >
+                          <input
+                            autoFocus
+                            type="text"
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onBlur={() => handleRename(project)}
+                            className="min-w-0 flex-1 px-2 py-1 rounded border border-slate-300 text-sm outline-none focus:border-green-500"
+                          />
+                          <button type="submit" className="p-1 rounded hover:bg-slate-100 text-green-600">
+                            <Check className="w-4 h-4" />
+                          </button>
+                        </form>
+                      ) : (
+                        <p className="text-sm font-semibold text-slate-900 truncate">
+                          {project.name}
+                          {isActive && <span className="ml-2 text-xs font-medium text-green-700">Open</span>}
+                        </p>
+                      )}
+                      <p className="text-xs text-slate-500">
+                        {project.referenceImages.length} reference{project.referenceImages.length !== 1 ? 's' : ''} · {project.sheets.length} sheet{project.sheets.length !== 1 ? 's' : ''} · {formatMegabytes(estimateProjectSize(project))} · saved {new Date(project.updatedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {!isActive && (
+                        <button
+                          onClick={() => onOpen(project)}
+                          className="px-3 py-1.5 rounded-lg bg-green-600 text-white text-xs font-semibold hover:bg-green-700 transition-colors"
+                        >
+                          Open
+                        </button>
+                      )}
+                      <button
+                        onClick={() => { setRenamingId(project.id); setRenameValue(project.name); }}
+                        className="p-1.5 rounded hover:bg-slate-100 text-slate-500"
+                        title="Rename"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(project)}
+                        disabled={busyId !== null}
+                        className="p-1.5 rounded hover:bg-slate-100 text-slate-500 disabled:opacity-50"
+                        title="Duplicate as a starting point"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleExport(project)}
+                        disabled={busyId !== null}
+                        className="p-1.5 rounded hover:bg-slate-100 text-slate-500 disabled:opacity-50"
+                        title="Export as a file with all images and history"
+                      >
+                        {busyId === project.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(project)}
+                        disabled={busyId !== null || isActive}
+                        className="p-1.5 rounded hover:bg-red-50 text-red-500 disabled:opacity-30"
+                        title={isActive ? 'Open another project to delete this one' : 'Delete'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, FileText, Copy, Save, Trash2, Upload, Download, Eye, AlertCircle, Lock } from 'lucide-react';
+import { PromptTemplate } from '../types';
+import {
+  PromptVariables,
+  TEMPLATE_VARIABLES,
+  buildPrompt,
+  exportTemplates,
+  parseTemplateImport,
+  findTemplate
+} from '../prompts';
+import { createId, downloadBlob } from '../utils';
+
+interface PromptTemplateModalProps {
+  templates: PromptTemplate[];
+  selectedId: string;
+  variables: PromptVariables;
+  onSelect: (id: string) => void;
+  onCustomTemplatesChange: (templates: PromptTemplate[]) => void;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ key: 'style' | 'anatomy' | 'captions' | 'layout'; label: string }> = [
+  { key: 'style', label: 'Style' },
+  { key: 'anatomy', label: 'Anatomy, Posing & Expressions' },
+  { key: 'captions', label: 'Caption Policy' },
+  { key: 'layout', label: 'Layout Rules' },
+];
+
+export default function PromptTemplateModal({
+  templates,
+  selectedId,
+  variables,
+  onSelect,
+  onCustomTemplatesChange,
+  onClose
+}: PromptTemplateModalProps) {
+  const [draft, setDraft] = useState<PromptTemplate>(() => findTemplate(templates, selectedId));
+  const [showPreview, setShowPreview] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const customTemplates = templates.filter(t => !t.builtIn);
+
+  useEffect(() => {
+    setDraft(findTemplate(templates, selectedId));
+  }, [selectedId, templates]);
+
+  const handleDuplicate = () => {
+    const copy: PromptTemplate = { ...draft, id: createId(), name: `${draft.name} (copy)`, builtIn: false };
+    onCustomTemplatesChange([...customTemplates, copy]);
+    onSelect(copy.id);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setError("Template name cannot be empty.");
+      return;
+    }
+    setError(null);
+    onCustomTemplatesChange(customTemplates.map(t => (t.id === draft.id ? { ...draft, name: draft.name.trim() } : t)));
+  };
+
+  const handleDelete = () => {
+    onCustomTemplatesChange(customTemplates.filter(t => t.id !== draft.id));
+    onSelect(templates[0].id);
+  };
+
+  const handleExport = () => {
+    const toExport = customTemplates.length > 0 ? customTemplates : [draft];
+    downloadBlob(
+      new Blob([exportTemplates(toExport)], { type: 'application/json' }),
+      `sticker-templates-${Date.now()}.json`
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseTemplateImport(await file.text());
+      onCustomTemplatesChange([...customTemplates, ...imported]);
+      onSelect(imported[0].id);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to import templates.");
+    }
+  };
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(findTemplate(templates, selectedId));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+          <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+            <FileText className="w-5 h-5 text-green-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Prompt Templates</h2>
+            <p className="text-slate-500 text-xs">
+              Variables: {TEMPLATE_VARIABLES.map(v => `{{${v.name}}}`).join(', ')}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-[200px_1fr]">
+          {/* Template List */}
+          <div className="border-r border-slate-100 overflow-y-auto p-3 flex flex-col gap-1">
+            {templates.map((template) => (
+              <button
+                key={template.id}
+                onClick={() => onSelect(template.id)}
+                className={`text-left px-3 py-2 rounded-lg text-sm transition-all flex items-center gap-2 ${
+                  template.id === selectedId
+                    ? 'bg-green-600 text-white'
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {template.builtIn && <Lock className="w-3 h-3 shrink-0 opacity-60" />}
+                <span className="truncate">{template.name}</span>
+              </button>
+            ))}
+            <div className="mt-auto pt-3 border-t border-slate-100 flex flex-col gap-1">
+              <label className="px-3 py-2 rounded-lg text-xs font-semibold text-slate-600 hover:bg-slate-100 cursor-pointer flex items-center gap-2">
+                <Upload className="w-3.5 h-3.5" /> Import JSON
+                <input
+                  type="file"
+                  ref={importInputRef}
+                  onChange={handleImport}
+                  accept="application/json,.json"
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={handleExport}
+                className="px-3 py-2 rounded-lg text-xs font-semibold text-slate-600 hover:bg-slate-100 flex items-center gap-2"
+              >
+                <Download className="w-3.5 h-3.5" /> Export JSON
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="overflow-y-auto p-6 space-y-4">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                disabled={draft.builtIn}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200 disabled:bg-slate-50 disabled:text-slate-500"
+              />
+            </div>
+
+            {FIELDS.map((field) => (
+              <div key={field.key}>
+                <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">{field.label}</label>
+                <textarea
+                  value={draft[field.key]}
+                  disabled={draft.builtIn}
+                  onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  rows={3}
+                  className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200 disabled:bg-slate-50 disabled:text-slate-500 resize-y"
+                />
+              </div>
+            ))}
+
+            {draft.builtIn && (
+              <p className="text-xs text-slate-500 bg-slate-50 p-3 rounded-lg">
+                Built-in templates are read-only. Duplicate this one to make an editable copy.
+              </p>
+            )}
+
+            {error && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100 flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleDuplicate}
+                className="px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5"
+              >
+                <Copy className="w-4 h-4" /> Duplicate
+              </button>
+              {!draft.builtIn && (
+                <>
+                  <button
+                    onClick={handleSave}
+                    disabled={!isDirty}
+                    className="px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Save className="w-4 h-4" /> Save
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-red-50 hover:text-red-600 transition-colors flex items-center gap-1.5"
+                  >
+                    <Trash2 className="w-4 h-4" /> Delete
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => setShowPreview(prev => !prev)}
+                className="ml-auto px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5"
+              >
+                <Eye className="w-4 h-4" /> {showPreview ? 'Hide Prompt' : 'Preview Prompt'}
+              </button>
+            </div>
+
+            {showPreview && (
+              <pre className="text-xs text-slate-600 bg-slate-50 p-4 rounded-lg whitespace-pre-wrap font-mono">
+                {buildPrompt(draft, variables).trim()}
+              </pre>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { QualityReport } from '../types';
+
+interface QualityReportCardProps {
+  report: QualityReport;
+}
+
+export default function QualityReportCard({ report }: QualityReportCardProps) {
+  return (
+    <div className={`w-full rounded-lg border px-3 py-2 mb-2 text-xs ${report.passed ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+      <div className="flex items-center gap-1.5 font-semibold">
+        {report.passed ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+        Quality {report.score}/100 · {report.passed ? 'Passed' : 'Needs a look'}
+        {report.attempts > 1 && (
+          <span className="font-normal">· best of {report.attempts} attempts</span>
+        )}
+      </div>
+      {report.issues.length > 0 && (
+        <ul className="mt-1 ml-5 list-disc space-y-0.5">
+          {report.issues.map(issue => <li key={issue.check}>{issue.message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
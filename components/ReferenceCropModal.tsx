@@ -0,0 +1,213 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Crop, Wand2, RotateCcw, Loader2 } from 'lucide-react';
+import { ReferenceImage } from '../types';
+import { CropRect, suggestCrop } from '../uploads';
+
+interface ReferenceCropModalProps {
+  image: ReferenceImage;
+  onApply: (crop: CropRect) => Promise<void>;
+  onClose: () => void;
+}
+
+// Crop box as fractions of the image, so it is independent of the displayed size
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const FULL_BOX: Box = { x: 0, y: 0, w: 1, h: 1 };
+const MIN_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Apply a pointer movement (in fractions) to the box for the given drag mode
+const dragBox = (start: Box, mode: DragMode, dx: number, dy: number): Box => {
+  if (mode === 'move') {
+    return { ...start, x: clamp(start.x + dx, 0, 1 - start.w), y: clamp(start.y + dy, 0, 1 - start.h) };
+  }
+  let left = start.x, top = start.y, right = start.x + start.w, bottom = start.y + start.h;
+  if (mode === 'nw' || mode === 'sw') left = clamp(left + dx, 0, right - MIN_SIZE);
+  if (mode === 'ne' || mode === 'se') right = clamp(right + dx, left + MIN_SIZE, 1);
+  if (mode === 'nw' || mode === 'ne') top = clamp(top + dy, 0, bottom - MIN_SIZE);
+  if (mode === 'sw' || mode === 'se') bottom = clamp(bottom + dy, top + MIN_SIZE, 1);
+  return { x: left, y: top, w: right - left, h: bottom - top };
+};
+
+const HANDLES: Array<{ mode: DragMode; className: string }> = [
+  { mode: 'nw', className: '-top-1.5 -left-1.5 cursor-nwse-resize' },
+  { mode: 'ne', className: '-top-1.5 -right-1.5 cursor-nesw-resize' },
+  { mode: 'sw', className: '-bottom-1.5 -left-1.5 cursor-nesw-resize' },
+  { mode: 'se', className: '-bottom-1.5 -right-1.5 cursor-nwse-resize' },
+];
+
+export default function ReferenceCropModal({ image, onApply, onClose }: ReferenceCropModalProps) {
+  const src = `data:${image.mimeType};base64,${image.data}`;
+  const [box, setBox] = useState<Box>(FULL_BOX);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; startBox: Box } | null>(null);
+
+  useEffect(() => {
+    setBox(FULL_BOX);
+  }, [image.id]);
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startBox: box };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag || !frame) return;
+    setBox(dragBox(drag.startBox, drag.mode, (e.clientX - drag.startX) / frame.width, (e.clientY - drag.startY) / frame.height));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleAuto = async () => {
+    if (!natural) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const rect = await suggestCrop(src);
+      setBox({
+        x: rect.x / natural.width,
+        y: rect.y / natural.height,
+        w: rect.width / natural.width,
+        h: rect.height / natural.height,
+      });
+    } catch (err: any) {
+      console.error(err);
+      setError("Could not find the subject automatically.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!natural) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onApply({
+        x: Math.round(box.x * natural.width),
+        y: Math.round(box.y * natural.height),
+        width: Math.max(1, Math.round(box.w * natural.width)),
+        height: Math.max(1, Math.round(box.h * natural.height)),
+      });
+      onClose();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to crop the image.");
+      setIsBusy(false);
+    }
+  };
+
+  const isFull = box.x === 0 && box.y === 0 && box.w === 1 && box.h === 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-xl w-full overflow-hidden animate-in zoom-in-95 duration-200 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <Crop className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Crop Reference</h2>
+              <p className="text-slate-500 text-xs">Frame the subject so it fills the reference.</p>
+            </div>
+          </div>
+
+          <div className="flex justify-center bg-slate-100 rounded-xl p-2 mb-4 select-none">
+            <div
+              ref={frameRef}
+              className="relative overflow-hidden touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              <img
+                src={src}
+                alt="Reference"
+                draggable={false}
+                onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="block max-w-full max-h-[55vh]"
+              />
+              <div
+                onPointerDown={startDrag('move')}
+                className="absolute border-2 border-white cursor-move"
+                style={{
+                  left: `${box.x * 100}%`,
+                  top: `${box.y * 100}%`,
+                  width: `${box.w * 100}%`,
+                  height: `${box.h * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                }}
+              >
+                {HANDLES.map(handle => (
+                  <div
+                    key={handle.mode}
+                    onPointerDown={startDrag(handle.mode)}
+                    className={`absolute w-3 h-3 bg-white border border-green-600 rounded-sm ${handle.className}`}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {natural && (
+            <p className="text-xs text-slate-500 mb-4 text-center">
+              {Math.round(box.w * natural.width)} × {Math.round(box.h * natural.height)} px
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleAuto}
+              disabled={isBusy || !natural}
+              className="px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+              title="Trim plain borders around the subject"
+            >
+              <Wand2 className="w-4 h-4" /> Auto
+            </button>
+            <button
+              onClick={() => setBox(FULL_BOX)}
+              disabled={isBusy || isFull}
+              className="px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4" /> Reset
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={isBusy || !natural || isFull}
+              className="ml-auto px-5 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+            >
+              {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+              Apply Crop
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
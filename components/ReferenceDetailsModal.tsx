@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { X, Tag } from 'lucide-react';
+import { ReferenceImage } from '../types';
+
+interface ReferenceDetailsModalProps {
+  image: ReferenceImage;
+  index: number;
+  onSave: (patch: Partial<ReferenceImage>) => void;
+  onClose: () => void;
+}
+
+const MAX_STICKERS_PER_REFERENCE = 16;
+
+// Split a comma or newline separated list into trimmed entries
+const parseCaptions = (value: string): string[] =>
+  value.split(/[,\n]/).map(c => c.trim()).filter(Boolean);
+
+export default function ReferenceDetailsModal({ image, index, onSave, onClose }: ReferenceDetailsModalProps) {
+  const [name, setName] = useState(image.name);
+  const [captionsText, setCaptionsText] = useState(image.captions.join(', '));
+  const [stickerCount, setStickerCount] = useState(image.stickerCount);
+  const [note, setNote] = useState(image.note);
+
+  const captions = parseCaptions(captionsText);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim(),
+      captions,
+      stickerCount: Math.min(MAX_STICKERS_PER_REFERENCE, Math.max(1, Math.round(stickerCount) || 1)),
+      note: note.trim(),
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden animate-in zoom-in-95 duration-200 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <form onSubmit={handleSubmit} className="p-8 flex flex-col gap-4">
+          <div className="flex items-center gap-4">
+            <img
+              src={`data:${image.mimeType};base64,${image.data}`}
+              alt="Reference"
+              className="w-16 h-16 rounded-xl object-cover border border-slate-200"
+            />
+            <div>
+              <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+                <Tag className="w-5 h-5 text-green-600" /> Reference #{index + 1}
+              </h2>
+              <p className="text-slate-500 text-xs">These details are added to the prompt for this character.</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Character Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Mochi the mascot"
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Stickers per Sheet</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_STICKERS_PER_REFERENCE}
+              value={stickerCount}
+              onChange={(e) => setStickerCount(parseInt(e.target.value, 10))}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Captions / Expressions</label>
+            <textarea
+              value={captionsText}
+              onChange={(e) => setCaptionsText(e.target.value)}
+              placeholder="WOW, sleepy, THANK YOU"
+              rows={2}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200 resize-y"
+            />
+            {captions.length > 0 && captions.length !== stickerCount && (
+              <p className="text-xs text-yellow-600 mt-1">
+                {captions.length} caption{captions.length !== 1 ? 's' : ''} for {stickerCount || 0} sticker{stickerCount !== 1 ? 's' : ''}
+                {captions.length > stickerCount ? ': extra captions will be ignored.' : ': the rest will be chosen by the model.'}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 block">Note (optional)</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Always wears the red scarf"
+              rows={2}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200 resize-y"
+            />
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all shadow-lg shadow-green-200 hover:shadow-green-300 mt-2"
+          >
+            Save Details
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
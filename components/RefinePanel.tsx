@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Loader2, Sparkles, X } from 'lucide-react';
+
+interface RefinePanelProps {
+  isRefining: boolean;
+  disabled: boolean;
+  onSubmit: (instruction: string) => void;
+  onCancel: () => void;
+}
+
+export default function RefinePanel({ isRefining, disabled, onSubmit, onCancel }: RefinePanelProps) {
+  const [instruction, setInstruction] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (instruction.trim()) onSubmit(instruction.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full bg-white/90 rounded-xl p-4 shadow-sm mb-6 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-green-600" /> Refine this sheet
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder="e.g. Make the cat in the top-left look surprised and change its word to WOW"
+        rows={2}
+        disabled={isRefining}
+        className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200 resize-y disabled:bg-slate-50"
+        autoFocus
+      />
+      <button
+        type="submit"
+        disabled={disabled || isRefining || !instruction.trim()}
+        className="self-end px-5 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isRefining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+        {isRefining ? 'Refining...' : 'Apply Refinement'}
+      </button>
+    </form>
+  );
+}
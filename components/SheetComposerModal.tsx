@@ -0,0 +1,523 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, LayoutGrid, Upload, History, Maximize2, RotateCw, Copy, Trash2, ArrowUpToLine, Loader2, AlertCircle } from 'lucide-react';
+import { GeneratedSheet, HistoryEntry, StickerAsset } from '../types';
+import { SheetDimensions, clampMargin, formatSheetSize } from '../layout';
+import {
+  ComposerItem,
+  ComposerSource,
+  PackOptions,
+  DEFAULT_PACK_OPTIONS,
+  DEFAULT_STICKER_INCHES,
+  GAP_OPTIONS,
+  packItems,
+  fillSheet,
+  findLayoutIssues,
+  sizeForSource,
+} from '../composer';
+import { listHistory } from '../history';
+import { segmentSheet } from '../processing';
+import { prepareUpload } from '../uploads';
+import { createId } from '../utils';
+
+interface SheetComposerModalProps {
+  sheet: SheetDimensions;
+  marginInches: number;
+  sessionStickers: StickerAsset[];
+  onCompose: (items: ComposerItem[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type DragMode = 'move' | 'scale' | 'rotate';
+
+// Uploads are kept large enough to print a full-width sticker at 300 DPI
+const UPLOAD_SETTINGS = { maxEdge: 2048 };
+const MIN_ITEM_INCHES = 0.25;
+
+const sourceFromSticker = (sticker: StickerAsset): ComposerSource => ({
+  id: sticker.id,
+  src: sticker.src,
+  width: sticker.bounds.width,
+  height: sticker.bounds.height,
+});
+
+const formatInches = (inches: number) => `${Number(inches.toFixed(2))}"`;
+
+export default function SheetComposerModal({ sheet, marginInches, sessionStickers, onCompose, onClose }: SheetComposerModalProps) {
+  const [sources, setSources] = useState<ComposerSource[]>(() => sessionStickers.map(sourceFromSticker));
+  const [items, setItems] = useState<ComposerItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [options, setOptions] = useState<PackOptions>({ ...DEFAULT_PACK_OPTIONS, marginInches });
+  const [newSize, setNewSize] = useState(DEFAULT_STICKER_INCHES);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[] | null>(null);
+  const [loadingSheetId, setLoadingSheetId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<{ mode: DragMode; id: string; startX: number; startY: number; startItem: ComposerItem } | null>(null);
+
+  useEffect(() => {
+    setOptions(prev => ({ ...prev, marginInches }));
+  }, [marginInches]);
+
+  const issues = findLayoutIssues(items, sheet, options);
+  const selected = items.find(item => item.id === selectedId) || null;
+  const margin = clampMargin(sheet, options.marginInches);
+
+  const updateItem = (id: string, patch: Partial<ComposerItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const reportUnplaced = (count: number) => {
+    setError(count > 0 ? `${count} sticker${count !== 1 ? 's' : ''} did not fit. Make them smaller or use Fill Sheet.` : null);
+  };
+
+  // New stickers go into the free space around the current layout, or the middle when there is none
+  const addSources = (toAdd: ComposerSource[]) => {
+    const newItems = toAdd.map((source): ComposerItem => ({
+      id: createId(),
+      sourceId: source.id,
+      src: source.src,
+      x: sheet.width / 2,
+      y: sheet.height / 2,
+      ...sizeForSource(source, newSize),
+      rotation: 0,
+    }));
+    const result = packItems(newItems, sheet, options, items);
+    setItems(prev => [...prev, ...result.items]);
+    setSelectedId(result.items[result.items.length - 1]?.id || null);
+    reportUnplaced(result.unplaced.length);
+  };
+
+  const handleArrange = () => {
+    const result = packItems(items, sheet, options);
+    setItems(result.items);
+    reportUnplaced(result.unplaced.length);
+  };
+
+  const handleFill = () => {
+    const result = fillSheet(items, sheet, options);
+    setItems(result.items);
+    reportUnplaced(result.unplaced.length);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    setError(null);
+    const added: ComposerSource[] = [];
+    for (const file of files) {
+      try {
+        const prepared = await prepareUpload(file, UPLOAD_SETTINGS);
+        added.push({
+          id: createId(),
+          src: `data:${prepared.mimeType};base64,${prepared.data}`,
+          width: prepared.width,
+          height: prepared.height,
+        });
+      } catch (err: any) {
+        setError(err.message || `${file.name}: could not be read.`);
+      }
+    }
+    setSources(prev => [...prev, ...added]);
+  };
+
+  const toggleHistory = async () => {
+    if (historyEntries) {
+      setHistoryEntries(null);
+      return;
+    }
+    try {
+      setHistoryEntries(await listHistory());
+    } catch (err) {
+      console.error("Failed to load history", err);
+      setError("Could not open the local history database.");
+    }
+  };
+
+  // Split a past sheet into stickers and offer them in the tray
+  const handleHistorySheet = async (historySheet: GeneratedSheet) => {
+    setLoadingSheetId(historySheet.id);
+    setError(null);
+    try {
+      const stickers = await segmentSheet(historySheet);
+      if (stickers.length === 0) setError("No stickers were found on that sheet.");
+      setSources(prev => [...prev, ...stickers.map(sourceFromSticker)]);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to split the sheet into stickers.");
+    } finally {
+      setLoadingSheetId(null);
+    }
+  };
+
+  const startDrag = (mode: DragMode, item: ComposerItem) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    setSelectedId(item.id);
+    dragRef.current = { mode, id: item.id, startX: e.clientX, startY: e.clientY, startItem: item };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag || !frame) return;
+    const inchesPerPixel = sheet.width / frame.width;
+    const start = drag.startItem;
+
+    if (drag.mode === 'move') {
+      updateItem(drag.id, {
+        x: start.x + (e.clientX - drag.startX) * inchesPerPixel,
+        y: start.y + (e.clientY - drag.startY) * inchesPerPixel,
+      });
+      return;
+    }
+
+    // Scale and rotate work relative to the item's center on screen
+    const centerX = frame.left + start.x / inchesPerPixel;
+    const centerY = frame.top + start.y / inchesPerPixel;
+    if (drag.mode === 'scale') {
+      const startDistance = Math.hypot(drag.startX - centerX, drag.startY - centerY) || 1;
+      const factor = Math.max(
+        MIN_ITEM_INCHES / Math.min(start.width, start.height),
+        Math.hypot(e.clientX - centerX, e.clientY - centerY) / startDistance
+      );
+      updateItem(drag.id, { width: start.width * factor, height: start.height * factor });
+    } else {
+      let rotation = (Math.atan2(e.clientY - centerY, e.clientX - centerX) * 180) / Math.PI + 90;
+      if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+      updateItem(drag.id, { rotation: ((rotation + 540) % 360) - 180 });
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const setSelectedSize = (longest: number) => {
+    if (!selected || !(longest > 0)) return;
+    const factor = Math.max(MIN_ITEM_INCHES, longest) / Math.max(selected.width, selected.height);
+    updateItem(selected.id, { width: selected.width * factor, height: selected.height * factor });
+  };
+
+  const duplicateSelected = () => {
+    if (!selected) return;
+    const copy = { ...selected, id: createId() };
+    const result = packItems([copy], sheet, options, items);
+    setItems(prev => [...prev, ...result.items]);
+    setSelectedId(copy.id);
+    reportUnplaced(result.unplaced.length);
+  };
+
+  const bringToFront = () => {
+    if (!selected) return;
+    setItems(prev => [...prev.filter(item => item.id !== selected.id), selected]);
+  };
+
+  const removeSelected = () => {
+    if (!selected) return;
+    setItems(prev => prev.filter(item => item.id !== selected.id));
+    setSelectedId(null);
+  };
+
+  const handleCompose = async () => {
+    if (issues.size > 0 && !confirm(`${issues.size} sticker${issues.size !== 1 ? 's' : ''} overlap, sit closer than the gap, or cross the margin. Add the sheet anyway?`)) {
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onCompose(items);
+      onClose();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to render the sheet.");
+      setIsBusy(false);
+    }
+  };
+
+  const historySheets = (historyEntries || []).flatMap(entry => entry.sheets);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[95vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <LayoutGrid className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Compose Sheet</h2>
+              <p className="text-slate-500 text-xs">
+                Place stickers on a {formatSheetSize(sheet)} sheet with a guaranteed gap. Drag to move, use the handles to scale and rotate (Shift snaps to 15°).
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-[1fr_260px] gap-6">
+          {/* Editor */}
+          <div className="flex flex-col gap-3 min-w-0">
+            <div className="flex justify-center bg-slate-100 rounded-xl p-4 select-none">
+              <div
+                ref={frameRef}
+                className="relative bg-white shadow-md touch-none bg-[url('https://www.transparenttextures.com/patterns/white-diamond.png')]"
+                style={{ aspectRatio: `${sheet.width} / ${sheet.height}`, width: `min(100%, calc(60vh * ${sheet.width / sheet.height}))` }}
+                onPointerMove={handlePointerMove}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+                onPointerDown={() => setSelectedId(null)}
+              >
+                {/* Printer-safe margin */}
+                <div
+                  className="absolute border border-dashed border-slate-300 pointer-events-none"
+                  style={{
+                    left: `${(margin / sheet.width) * 100}%`,
+                    top: `${(margin / sheet.height) * 100}%`,
+                    right: `${(margin / sheet.width) * 100}%`,
+                    bottom: `${(margin / sheet.height) * 100}%`,
+                  }}
+                />
+                {items.map(item => {
+                  const isSelected = item.id === selectedId;
+                  const hasIssue = issues.has(item.id);
+                  return (
+                    <div
+                      key={item.id}
+                      onPointerDown={startDrag('move', item)}
+                      className={`absolute cursor-move ${isSelected ? 'outline outline-2 outline-green-500' : ''} ${hasIssue ? 'ring-2 ring-red-500' : ''}`}
+                      style={{
+                        left: `${((item.x - item.width / 2) / sheet.width) * 100}%`,
+                        top: `${((item.y - item.height / 2) / sheet.height) * 100}%`,
+                        width: `${(item.width / sheet.width) * 100}%`,
+                        height: `${(item.height / sheet.height) * 100}%`,
+                        transform: `rotate(${item.rotation}deg)`,
+                      }}
+                    >
+                      <img src={item.src} alt="" draggable={false} className="w-full h-full pointer-events-none" />
+                      {isSelected && (
+                        <>
+                          <div
+                            onPointerDown={startDrag('scale', item)}
+                            className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-white border border-green-600 rounded-sm cursor-nwse-resize"
+                            title="Scale"
+                          />
+                          <div
+                            onPointerDown={startDrag('rotate', item)}
+                            className="absolute -top-6 left-1/2 -translate-x-1/2 w-3 h-3 bg-white border border-green-600 rounded-full cursor-grab"
+                            title="Rotate"
+                          />
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+              <span>{items.length} sticker{items.length !== 1 ? 's' : ''}</span>
+              {issues.size > 0 && (
+                <span className="flex items-center gap-1 text-red-600">
+                  <AlertCircle className="w-3.5 h-3.5" />
+                  {issues.size} too close or outside the margin
+                </span>
+              )}
+              <button
+                onClick={handleArrange}
+                disabled={items.length === 0}
+                className="ml-auto px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+                title="Pack the stickers at their current sizes"
+              >
+                <LayoutGrid className="w-3.5 h-3.5" /> Arrange
+              </button>
+              <button
+                onClick={handleFill}
+                disabled={items.length === 0}
+                className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 font-semibold hover:bg-slate-200 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+                title="Scale all stickers up or down together until the sheet is full"
+              >
+                <Maximize2 className="w-3.5 h-3.5" /> Fill Sheet
+              </button>
+              <button
+                onClick={() => { setItems([]); setSelectedId(null); setError(null); }}
+                disabled={items.length === 0}
+                className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 font-semibold hover:bg-slate-200 transition-colors disabled:opacity-50"
+              >
+                Clear
+              </button>
+            </div>
+
+            {selected && (
+              <div className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 rounded-xl text-xs text-slate-600">
+                <label className="flex items-center gap-1.5">
+                  Size
+                  <input
+                    type="number"
+                    min={MIN_ITEM_INCHES}
+                    step={0.125}
+                    value={Number(Math.max(selected.width, selected.height).toFixed(3))}
+                    onChange={(e) => setSelectedSize(Number(e.target.value))}
+                    className="w-20 px-2 py-1 rounded border border-slate-300"
+                  />
+                  in
+                </label>
+                <label className="flex items-center gap-1.5">
+                  Rotation
+                  <input
+                    type="range"
+                    min={-180}
+                    max={180}
+                    value={Math.round(selected.rotation)}
+                    onChange={(e) => updateItem(selected.id, { rotation: Number(e.target.value) })}
+                    className="w-28 accent-green-600"
+                  />
+                  <span className="w-9">{Math.round(selected.rotation)}°</span>
+                </label>
+                <div className="flex gap-1 ml-auto">
+                  <button onClick={() => updateItem(selected.id, { rotation: ((selected.rotation + 270) % 360) - 180 })} className="p-1.5 rounded hover:bg-slate-200" title="Rotate 90°">
+                    <RotateCw className="w-4 h-4" />
+                  </button>
+                  <button onClick={duplicateSelected} className="p-1.5 rounded hover:bg-slate-200" title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={bringToFront} className="p-1.5 rounded hover:bg-slate-200" title="Bring to front">
+                    <ArrowUpToLine className="w-4 h-4" />
+                  </button>
+                  <button onClick={removeSelected} className="p-1.5 rounded hover:bg-red-100 hover:text-red-600" title="Remove from sheet">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Stickers and packing options */}
+          <div className="flex flex-col gap-4 text-sm">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1 text-xs text-slate-600">
+                Minimum gap
+                <select
+                  value={options.gapInches}
+                  onChange={(e) => setOptions(prev => ({ ...prev, gapInches: Number(e.target.value) }))}
+                  className="px-2 py-1.5 rounded-lg border border-slate-300 text-sm"
+                >
+                  {GAP_OPTIONS.map(gap => <option key={gap} value={gap}>{formatInches(gap)}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-600">
+                New sticker size
+                <input
+                  type="number"
+                  min={MIN_ITEM_INCHES}
+                  step={0.25}
+                  value={newSize}
+                  onChange={(e) => setNewSize(Math.max(MIN_ITEM_INCHES, Number(e.target.value) || DEFAULT_STICKER_INCHES))}
+                  className="px-2 py-1.5 rounded-lg border border-slate-300 text-sm"
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={options.allowRotation}
+                onChange={(e) => setOptions(prev => ({ ...prev, allowRotation: e.target.checked }))}
+                className="accent-green-600"
+              />
+              Turn stickers 90° when it packs tighter
+            </label>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold text-slate-700">Stickers</span>
+                <button
+                  onClick={() => addSources(sources)}
+                  disabled={sources.length === 0}
+                  className="text-xs font-semibold text-green-700 hover:underline disabled:opacity-50 disabled:no-underline"
+                >
+                  Add all
+                </button>
+              </div>
+              {sources.length === 0 ? (
+                <p className="text-xs text-slate-500">Split a sheet into stickers, upload images, or pick a past sheet below.</p>
+              ) : (
+                <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+                  {sources.map(source => (
+                    <button
+                      key={source.id}
+                      onClick={() => addSources([source])}
+                      className="aspect-square rounded-lg border border-slate-200 bg-[url('https://www.transparenttextures.com/patterns/white-diamond.png')] hover:border-green-500 p-1"
+                      title="Add to sheet"
+                    >
+                      <img src={source.src} alt="" className="w-full h-full object-contain" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 text-xs font-semibold hover:bg-slate-200 transition-colors flex items-center justify-center gap-1.5"
+              >
+                <Upload className="w-3.5 h-3.5" /> Upload
+              </button>
+              <button
+                onClick={toggleHistory}
+                className={`flex-1 px-3 py-2 rounded-lg text-xs font-semibold transition-colors flex items-center justify-center gap-1.5 ${historyEntries ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+              >
+                <History className="w-3.5 h-3.5" /> From History
+              </button>
+              <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleUpload} />
+            </div>
+
+            {historyEntries && (
+              historySheets.length === 0 ? (
+                <p className="text-xs text-slate-500">No past sheets saved on this device.</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+                  {historySheets.map(historySheet => (
+                    <button
+                      key={historySheet.id}
+                      onClick={() => handleHistorySheet(historySheet)}
+                      disabled={loadingSheetId !== null}
+                      className="relative rounded-lg border border-slate-200 hover:border-green-500 overflow-hidden disabled:opacity-50"
+                      title="Split into stickers"
+                    >
+                      <img src={historySheet.src} alt="" className="w-full h-20 object-cover" />
+                      {loadingSheetId === historySheet.id && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-white/60">
+                          <Loader2 className="w-4 h-4 animate-spin text-green-600" />
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center gap-3">
+          {error && <p className="text-sm text-red-600 flex-1">{error}</p>}
+          <button
+            onClick={handleCompose}
+            disabled={isBusy || items.length === 0}
+            className="ml-auto px-5 py-2 rounded-lg bg-green-600 text-white text-sm font-semibold hover:bg-green-700 transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          >
+            {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+            Add Sheet to Results
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
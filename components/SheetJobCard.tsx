@@ -0,0 +1,67 @@
+import React from 'react';
+import { Loader2, Clock, RefreshCw, AlertCircle, Ban, X } from 'lucide-react';
+import { SheetJob } from '../types';
+
+interface SheetJobCardProps {
+  job: SheetJob;
+  onCancel: () => void;
+}
+
+const describeJob = (job: SheetJob): string => {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting for a free slot...';
+    case 'running':
+      if (job.progress !== undefined) return `Removing background... ${Math.round(job.progress * 100)}%`;
+      return job.attempt > 1 ? `Generating (attempt ${job.attempt})...` : 'Generating...';
+    case 'retrying':
+      return `Retrying in ${Math.ceil((job.retryInMs || 0) / 1000)}s after attempt ${job.attempt} failed`;
+    case 'failed':
+      return job.error || 'Generation failed.';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return '';
+  }
+};
+
+export default function SheetJobCard({ job, onCancel }: SheetJobCardProps) {
+  const isActive = job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+  const icon = {
+    queued: <Clock className="w-5 h-5 text-slate-400" />,
+    running: <Loader2 className="w-5 h-5 text-green-600 animate-spin" />,
+    retrying: <RefreshCw className="w-5 h-5 text-yellow-500" />,
+    failed: <AlertCircle className="w-5 h-5 text-red-500" />,
+    cancelled: <Ban className="w-5 h-5 text-slate-400" />,
+    done: null,
+  }[job.status];
+
+  return (
+    <div
+      className={`bg-white/80 rounded-xl p-4 border flex items-start gap-3 ${
+        job.status === 'failed' ? 'border-red-100' : 'border-slate-200'
+      }`}
+    >
+      <div className="shrink-0 mt-0.5">{icon}</div>
+      <div className="min-w-0 flex-1">
+        <div className="text-sm font-semibold text-slate-800">Sheet {job.index + 1}</div>
+        <p className={`text-xs break-words ${job.status === 'failed' ? 'text-red-600' : 'text-slate-500'}`}>
+          {describeJob(job)}
+        </p>
+        {job.status === 'retrying' && job.error && (
+          <p className="text-xs text-slate-400 mt-1 break-words">{job.error}</p>
+        )}
+      </div>
+      {isActive && (
+        <button
+          onClick={onCancel}
+          className="p-1 rounded-full hover:bg-red-50 text-slate-400 hover:text-red-600 shrink-0"
+          title="Cancel this sheet"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
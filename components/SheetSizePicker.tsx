@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { AppConfig, LengthUnit } from '../types';
+import { SHEET_SIZE_OPTIONS, LENGTH_UNITS, fromInches, toInches, validateSheetSize } from '../layout';
+
+interface SheetSizePickerProps {
+  config: AppConfig;
+  onChange: (patch: Partial<AppConfig>) => void;
+}
+
+interface LengthInputProps {
+  value: number;
+  label: string;
+  invalid: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Keeps what was typed, so a cleared or half-typed field does not turn into 0.
+// Only values that parse reach the config.
+function LengthInput({ value, label, invalid, onCommit }: LengthInputProps) {
+  const [text, setText] = useState(String(value));
+
+  // Follow outside changes, such as a unit switch
+  useEffect(() => {
+    if (parseFloat(text) !== value) setText(String(value));
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const parsed = parseFloat(next);
+    if (Number.isFinite(parsed)) onCommit(parsed);
+  };
+
+  return (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={text}
+      onChange={(e) => handleChange(e.target.value)}
+      onBlur={() => setText(String(value))}
+      aria-label={label}
+      className={`w-full px-3 py-2 rounded-lg border text-sm outline-none transition-all focus:ring-2 ${
+        invalid ? 'border-red-300 focus:ring-red-100' : 'border-slate-300 focus:border-green-500 focus:ring-green-200'
+      }`}
+    />
+  );
+}
+
+export default function SheetSizePicker({ config, onChange }: SheetSizePickerProps) {
+  const isCustom = config.sheetSize === 'custom';
+  const validationError = isCustom
+    ? validateSheetSize(config.customWidth, config.customHeight, config.customUnit)
+    : null;
+
+  // Keep the physical size when switching units
+  const handleUnitChange = (unit: LengthUnit) => {
+    onChange({
+      customUnit: unit,
+      customWidth: fromInches(toInches(config.customWidth, config.customUnit), unit),
+      customHeight: fromInches(toInches(config.customHeight, config.customUnit), unit),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid grid-cols-4 gap-2">
+        {SHEET_SIZE_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => onChange({ sheetSize: option.id })}
+            className={`py-2 rounded-lg text-sm font-medium transition-all ${
+              config.sheetSize === option.id
+                ? 'bg-green-600 text-white shadow-md shadow-green-200'
+                : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange({ sheetSize: 'custom' })}
+          className={`col-span-2 py-2 rounded-lg text-sm font-medium transition-all ${
+            isCustom
+              ? 'bg-green-600 text-white shadow-md shadow-green-200'
+              : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+          }`}
+        >
+          Custom
+        </button>
+      </div>
+
+      {isCustom && (
+        <div className="flex flex-col gap-2 mt-1">
+          <div className="flex items-center gap-2">
+            <LengthInput
+              value={config.customWidth}
+              label="Custom width"
+              invalid={!!validationError}
+              onCommit={(customWidth) => onChange({ customWidth })}
+            />
+            <span className="text-slate-400 text-sm">×</span>
+            <LengthInput
+              value={config.customHeight}
+              label="Custom height"
+              invalid={!!validationError}
+              onCommit={(customHeight) => onChange({ customHeight })}
+            />
+            <select
+              value={config.customUnit}
+              onChange={(e) => handleUnitChange(e.target.value as LengthUnit)}
+              aria-label="Unit"
+              className="px-2 py-2 rounded-lg border border-slate-300 text-sm bg-white outline-none focus:border-green-500"
+            >
+              {LENGTH_UNITS.map((unit) => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+          </div>
+          {validationError && (
+            <p className="text-xs text-red-500 flex items-center gap-1">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+              {validationError}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { X, MessageCircle, Loader2, AlertCircle, Download } from 'lucide-react';
+import { StickerAsset } from '../types';
+import { PackPlatform, PLATFORM_SPECS, buildStickerPack, emojiForCaption } from '../packs';
+import { downloadBlob } from '../utils';
+
+interface StickerPackModalProps {
+  stickers: StickerAsset[];
+  captions: string[]; // Caption word per sticker, in the same order; may be shorter
+  onClose: () => void;
+}
+
+interface StickerRow {
+  id: string;
+  src: string;
+  caption: string;
+  emoji: string;
+}
+
+const formatKb = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+
+export default function StickerPackModal({ stickers, captions, onClose }: StickerPackModalProps) {
+  const [platform, setPlatform] = useState<PackPlatform>('telegram');
+  const [name, setName] = useState('My Stickers');
+  const [publisher, setPublisher] = useState('');
+  const [rows, setRows] = useState<StickerRow[]>(() => stickers.map((sticker, i) => ({
+    id: sticker.id,
+    src: sticker.src,
+    caption: captions[i] || '',
+    emoji: emojiForCaption(captions[i] || ''),
+  })));
+  const [isExporting, setIsExporting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const spec = PLATFORM_SPECS[platform];
+
+  const updateRow = (id: string, patch: Partial<StickerRow>) =>
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...patch } : row)));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setErrors([]);
+    try {
+      const result = await buildStickerPack(platform, rows, { name, publisher });
+      if (result.blob) {
+        downloadBlob(result.blob, `${platform}-stickers-${Date.now()}.zip`);
+      } else {
+        setErrors(result.errors);
+      }
+    } catch (err: any) {
+      console.error(err);
+      setErrors([err.message || "Failed to build the sticker pack."]);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <MessageCircle className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-slate-900">Chat Sticker Pack</h2>
+              <p className="text-slate-500 text-xs">
+                {spec.square ? `${spec.size}×${spec.size}` : `${spec.size}px on the longer side`} {spec.format.toUpperCase()},
+                max {formatKb(spec.maxBytes)} each, {spec.minStickers}-{spec.maxStickers} stickers
+                {spec.trayIcon && `, ${spec.trayIcon.size}×${spec.trayIcon.size} tray icon`}.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            {(Object.keys(PLATFORM_SPECS) as PackPlatform[]).map((p) => (
+              <button
+                key={p}
+                onClick={() => { setPlatform(p); setErrors([]); }}
+                className={`py-2 rounded-lg text-sm font-medium transition-all ${
+                  platform === p
+                    ? 'bg-green-600 text-white shadow-md shadow-green-200'
+                    : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {PLATFORM_SPECS[p].label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Pack name"
+              className="px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+            />
+            <input
+              type="text"
+              value={publisher}
+              onChange={(e) => setPublisher(e.target.value)}
+              placeholder={platform === 'whatsapp' ? 'Publisher (required)' : 'Author (optional)'}
+              className="px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500 focus:ring-2 focus:ring-green-200"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {rows.map((row, index) => (
+              <div key={row.id} className="flex items-center gap-3 border border-slate-200 rounded-xl p-2">
+                <img
+                  src={row.src}
+                  alt={`Sticker ${index + 1}`}
+                  className="w-14 h-14 object-contain rounded-lg bg-slate-50 shrink-0"
+                />
+                <input
+                  type="text"
+                  value={row.caption}
+                  onChange={(e) => updateRow(row.id, { caption: e.target.value, emoji: emojiForCaption(e.target.value) })}
+                  placeholder="Caption"
+                  className="min-w-0 flex-1 px-2 py-1.5 rounded-lg border border-slate-300 text-sm outline-none focus:border-green-500"
+                />
+                <input
+                  type="text"
+                  value={row.emoji}
+                  onChange={(e) => updateRow(row.id, { emoji: e.target.value })}
+                  title="Emoji (separate several with spaces)"
+                  className="w-16 px-2 py-1.5 rounded-lg border border-slate-300 text-lg text-center outline-none focus:border-green-500"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 space-y-3">
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm border border-red-100 flex items-start gap-2 max-h-32 overflow-y-auto">
+              <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              <ul className="space-y-0.5">
+                {errors.map((message, i) => <li key={i}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all shadow-lg shadow-green-200 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {isExporting ? 'Fitting and compressing...' : `Export ${spec.label} Pack`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { Download, CheckCircle2, Circle, X, MessageCircle, UserPlus, AlertTriangle } from 'lucide-react';
+import { StickerAsset } from '../types';
+import { downloadDataUrl } from '../utils';
+import { DRIFT_THRESHOLD } from '../consistency';
+import StickerPackModal from './StickerPackModal';
+
+interface StickerPickerProps {
+  stickers: StickerAsset[];
+  sheetIndex: number;
+  captions?: string[]; // Caption words in sheet order, used to prefill chat pack emoji
+  driftScores?: Record<string, number>; // Palette distance from the model sheets, by sticker id
+  onUseAsReference?: (sticker: StickerAsset) => void;
+}
+
+export default function StickerPicker({ stickers, sheetIndex, captions = [], driftScores = {}, onUseAsReference }: StickerPickerProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(stickers.map(s => s.id)));
+  const [previewSticker, setPreviewSticker] = useState<StickerAsset | null>(null);
+  const [showPackModal, setShowPackModal] = useState(false);
+
+  // A fresh split replaces the stickers, so select all of them again
+  useEffect(() => {
+    setSelectedIds(new Set(stickers.map(s => s.id)));
+    setPreviewSticker(null);
+  }, [stickers]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const downloadSticker = (sticker: StickerAsset) => {
+    const index = stickers.indexOf(sticker);
+    downloadDataUrl(sticker.src, `sticker-${sheetIndex + 1}-${index + 1}-${Date.now()}.png`);
+  };
+
+  const downloadSelected = () => {
+    stickers.filter(s => selectedIds.has(s.id)).forEach(downloadSticker);
+  };
+
+  const allSelected = selectedIds.size === stickers.length;
+  const isOffModel = (sticker: StickerAsset) => (driftScores[sticker.id] ?? 0) > DRIFT_THRESHOLD;
+  const offModelCount = stickers.filter(isOffModel).length;
+  const selectedStickers = stickers.filter(s => selectedIds.has(s.id));
+
+  if (stickers.length === 0) {
+    return (
+      <div className="w-full bg-white/90 rounded-xl p-4 text-sm text-slate-500 text-center">
+        No separate stickers could be found on this sheet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full bg-white/90 rounded-xl p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-semibold text-slate-700">
+          {stickers.length} sticker{stickers.length !== 1 ? 's' : ''} found
+          {offModelCount > 0 && (
+            <span className="ml-2 text-xs font-medium text-red-600">{offModelCount} off-model</span>
+          )}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setSelectedIds(allSelected ? new Set() : new Set(stickers.map(s => s.id)))}
+            className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+          >
+            {allSelected ? 'Select None' : 'Select All'}
+          </button>
+          <button
+            onClick={() => setShowPackModal(true)}
+            disabled={selectedIds.size === 0}
+            className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+            title="Export for Telegram, WhatsApp or Signal"
+          >
+            <MessageCircle className="w-3.5 h-3.5" />
+            Chat Pack
+          </button>
+          <button
+            onClick={downloadSelected}
+            disabled={selectedIds.size === 0}
+            className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Download {selectedIds.size} Selected
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+        {stickers.map((sticker, index) => {
+          const isSelected = selectedIds.has(sticker.id);
+          return (
+            <div
+              key={sticker.id}
+              className={`relative group aspect-square rounded-xl border-2 bg-[url('https://www.transparenttextures.com/patterns/white-diamond.png')] bg-slate-50 flex items-center justify-center p-2 transition-all ${
+                isSelected ? 'border-green-500' : 'border-slate-200'
+              }`}
+            >
+              <img
+                src={sticker.src}
+                alt={`Sticker ${index + 1}`}
+                onClick={() => setPreviewSticker(sticker)}
+                className="max-w-full max-h-full object-contain cursor-zoom-in"
+              />
+              <button
+                onClick={() => toggleSelected(sticker.id)}
+                className="absolute top-1 left-1 p-0.5 bg-white/80 rounded-full"
+                title={isSelected ? 'Deselect' : 'Select'}
+              >
+                {isSelected
+                  ? <CheckCircle2 className="w-5 h-5 text-green-600" />
+                  : <Circle className="w-5 h-5 text-slate-400" />}
+              </button>
+              <button
+                onClick={() => downloadSticker(sticker)}
+                className="absolute top-1 right-1 p-1 bg-white/80 backdrop-blur-sm rounded-full text-green-600 hover:bg-green-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Download sticker"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              {isOffModel(sticker) && (
+                <span
+                  className="absolute bottom-1 left-1 p-1 bg-white/80 rounded-full text-red-500"
+                  title={`Colors differ from the character's model sheet (drift ${Math.round(driftScores[sticker.id])})`}
+                >
+                  <AlertTriangle className="w-4 h-4" />
+                </span>
+              )}
+              {onUseAsReference && (
+                <button
+                  onClick={() => onUseAsReference(sticker)}
+                  className="absolute bottom-1 right-1 p-1 bg-white/80 backdrop-blur-sm rounded-full text-green-600 hover:bg-green-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Use as reference image"
+                >
+                  <UserPlus className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {showPackModal && (
+        <StickerPackModal
+          stickers={selectedStickers}
+          captions={selectedStickers.map(s => captions[stickers.indexOf(s)] || '')}
+          onClose={() => setShowPackModal(false)}
+        />
+      )}
+
+      {previewSticker && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+          onClick={() => setPreviewSticker(null)}
+        >
+          <div
+            className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 relative"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setPreviewSticker(null)}
+              className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+            <div className="bg-[url('https://www.transparenttextures.com/patterns/white-diamond.png')] bg-slate-50 rounded-xl p-4 mb-4 flex items-center justify-center">
+              <img src={previewSticker.src} alt="Sticker preview" className="max-w-full max-h-[60vh] object-contain" />
+            </div>
+            <button
+              onClick={() => downloadSticker(previewSticker)}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+            >
+              <Download className="w-5 h-5" />
+              Download PNG
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
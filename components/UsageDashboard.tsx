@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { X, BarChart3, Trash2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Resolution } from '../types';
+import {
+  DEFAULT_PRICES,
+  UsageRecord,
+  UsageSettings,
+  UsageSummary,
+  clearUsageRecords,
+  formatUsd,
+  groupUsage,
+  loadUsageRecords,
+  saveUsageSettings,
+  startOfDay,
+  summarizeUsage
+} from '../usage';
+
+interface UsageDashboardProps {
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClose: () => void;
+}
+
+type Period = 'daily' | 'weekly';
+
+const RESOLUTIONS: Resolution[] = ['1K', '2K', '4K'];
+const DAY_COUNT = 14;
+const WEEK_COUNT = 8;
+
+interface Bucket {
+  label: string;
+  summary: UsageSummary;
+}
+
+// Newest first: the last 14 days, or the last 8 weeks ending today
+const bucketRecords = (records: UsageRecord[], period: Period): Bucket[] => {
+  const days = period === 'daily' ? 1 : 7;
+  const count = period === 'daily' ? DAY_COUNT : WEEK_COUNT;
+  return Array.from({ length: count }, (_, i) => {
+    const from = startOfDay(i * days + days - 1);
+    const to = i === 0 ? Infinity : startOfDay(i * days - 1);
+    const date = new Date(from);
+    return {
+      label: period === 'daily'
+        ? date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+        : `Week of ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`,
+      summary: summarizeUsage(records.filter(r => r.timestamp >= from && r.timestamp < to)),
+    };
+  });
+};
+
+const SummaryCard = ({ title, summary }: { title: string; summary: UsageSummary }) => (
+  <div className="border border-slate-200 rounded-xl p-4">
+    <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">{title}</div>
+    <div className="text-2xl font-bold text-slate-900">{formatUsd(summary.costUsd)}</div>
+    <div className="text-xs text-slate-500 mt-1">
+      {summary.calls} call{summary.calls !== 1 ? 's' : ''} · {summary.images} image{summary.images !== 1 ? 's' : ''}
+      {summary.failures > 0 && <span className="text-red-500"> · {summary.failures} failed</span>}
+    </div>
+  </div>
+);
+
+const BreakdownTable = ({ title, rows }: { title: string; rows: Array<[string, UsageSummary]> }) => (
+  <div>
+    <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-slate-400">No calls yet.</p>
+    ) : (
+      <table className="w-full text-sm">
+        <tbody>
+          {rows.map(([name, summary]) => (
+            <tr key={name} className="border-t border-slate-100">
+              <td className="py-1.5 pr-2 text-slate-700 truncate max-w-[10rem]">{name}</td>
+              <td className="py-1.5 pr-2 text-slate-500 text-xs text-right">{summary.calls} calls</td>
+              <td className="py-1.5 pr-2 text-slate-500 text-xs text-right">{Math.round(summary.tokens / 1000)}k tok</td>
+              <td className="py-1.5 text-slate-900 font-semibold text-right">{formatUsd(summary.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export default function UsageDashboard({ settings, onSettingsChange, onClose }: UsageDashboardProps) {
+  const [records, setRecords] = useState<UsageRecord[]>(loadUsageRecords);
+  const [period, setPeriod] = useState<Period>('daily');
+
+  const update = (next: UsageSettings) => {
+    saveUsageSettings(next);
+    onSettingsChange(next);
+  };
+
+  const updatePrice = (model: string, patch: { inputPerMillion?: number; resolution?: Resolution; perImage?: number }) => {
+    const current = settings.prices[model];
+    const price = {
+      inputPerMillion: patch.inputPerMillion ?? current.inputPerMillion,
+      perImage: patch.resolution ? { ...current.perImage, [patch.resolution]: patch.perImage } : current.perImage,
+    };
+    update({ ...settings, prices: { ...settings.prices, [model]: price } });
+  };
+
+  const handleClear = () => {
+    if (!confirm("Delete all recorded usage? Prices and the budget are kept.")) return;
+    clearUsageRecords();
+    setRecords([]);
+  };
+
+  const today = summarizeUsage(records.filter(r => r.timestamp >= startOfDay()));
+  const week = summarizeUsage(records.filter(r => r.timestamp >= startOfDay(6)));
+  const buckets = bucketRecords(records, period);
+  const maxCost = Math.max(...buckets.map(b => b.summary.costUsd), 0.01);
+  const unpricedModels = Array.from(new Set<string>(records.map(r => r.model))).filter(m => !settings.prices[m]);
+  const overBudget = settings.dailyBudgetUsd > 0 && today.costUsd > settings.dailyBudgetUsd;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden animate-in zoom-in-95 duration-200 relative flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full hover:bg-slate-100 text-slate-400 hover:text-slate-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 border-b border-slate-100 flex items-center gap-3">
+          <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+            <BarChart3 className="w-5 h-5 text-green-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Usage & Cost</h2>
+            <p className="text-slate-500 text-xs">Estimated from your price table. Check your provider's billing page for exact charges.</p>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <SummaryCard title="Today" summary={today} />
+            <SummaryCard title="Last 7 Days" summary={week} />
+            <div className={`border rounded-xl p-4 ${overBudget ? 'border-red-200 bg-red-50' : 'border-slate-200'}`}>
+              <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Daily Budget</div>
+              <div className="flex items-center gap-1">
+                <span className="text-slate-500">$</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={settings.dailyBudgetUsd || ''}
+                  onChange={(e) => update({ ...settings, dailyBudgetUsd: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  placeholder="Off"
+                  className="w-24 px-2 py-1 rounded-lg border border-slate-300 text-lg font-bold outline-none focus:border-green-500"
+                />
+              </div>
+              <div className={`text-xs mt-1 flex items-center gap-1 ${overBudget ? 'text-red-600' : 'text-slate-500'}`}>
+                {settings.dailyBudgetUsd > 0 && (overBudget
+                  ? <><AlertCircle className="w-3 h-3" /> Over budget today</>
+                  : <><CheckCircle2 className="w-3 h-3 text-green-600" /> {formatUsd(settings.dailyBudgetUsd - today.costUsd)} left today</>)}
+                {settings.dailyBudgetUsd === 0 && 'Warn before a generation would exceed it'}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Totals</h3>
+              <div className="flex gap-1">
+                {(['daily', 'weekly'] as Period[]).map(p => (
+                  <button
+                    key={p}
+                    onClick={() => setPeriod(p)}
+                    className={`px-2 py-1 rounded text-xs font-medium capitalize ${period === p ? 'bg-green-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {p}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              {buckets.map(bucket => (
+                <div key={bucket.label} className="flex items-center gap-3 text-xs">
+                  <span className="w-32 shrink-0 text-slate-500">{bucket.label}</span>
+                  <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-green-500 rounded-full" style={{ width: `${(bucket.summary.costUsd / maxCost) * 100}%` }} />
+                  </div>
+                  <span className="w-16 shrink-0 text-right text-slate-500">{bucket.summary.images} img</span>
+                  <span className="w-16 shrink-0 text-right font-semibold text-slate-800">{formatUsd(bucket.summary.costUsd)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <BreakdownTable title="By Key" rows={groupUsage(records, r => r.keyLabel)} />
+            <BreakdownTable title="By Project" rows={groupUsage(records, r => r.project || 'Untitled')} />
+          </div>
+
+          <div>
+            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Recent Calls</h3>
+            {records.length === 0 ? (
+              <p className="text-sm text-slate-400">Nothing recorded yet.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <tbody>
+                  {records.slice(-15).reverse().map(r => (
+                    <tr key={r.id} className="border-t border-slate-100" title={r.error}>
+                      <td className="py-1.5 pr-2 text-slate-500">{new Date(r.timestamp).toLocaleString()}</td>
+                      <td className="py-1.5 pr-2 text-slate-700">{r.model} · {r.resolution}</td>
+                      <td className="py-1.5 pr-2 text-slate-500 text-right">{r.usage ? `${r.usage.totalTokens} tok` : '–'}</td>
+                      <td className="py-1.5 pr-2 text-slate-500 text-right">{(r.latencyMs / 1000).toFixed(1)}s</td>
+                      <td className={`py-1.5 pr-2 text-right ${r.success ? 'text-green-600' : 'text-red-500'}`}>{r.success ? 'ok' : 'failed'}</td>
+                      <td className="py-1.5 text-right font-semibold text-slate-800">{formatUsd(r.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Prices (USD)</h3>
+              <button
+                onClick={() => update({ ...settings, prices: DEFAULT_PRICES })}
+                className="text-xs text-slate-400 hover:text-green-600 underline"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            {unpricedModels.length > 0 && (
+              <p className="text-xs text-amber-600 mb-2">No price set for {unpricedModels.join(', ')}; those calls count as free.</p>
+            )}
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="text-left font-medium py-1">Model</th>
+                  <th className="text-right font-medium py-1">Input / 1M tok</th>
+                  {RESOLUTIONS.map(res => <th key={res} className="text-right font-medium py-1">{res} image</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(settings.prices).map(([model, price]) => (
+                  <tr key={model} className="border-t border-slate-100">
+                    <td className="py-1.5 pr-2 text-slate-700">{model}</td>
+                    <td className="py-1.5 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={price.inputPerMillion}
+                        onChange={(e) => updatePrice(model, { inputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-20 px-1.5 py-0.5 rounded border border-slate-300 text-right outline-none focus:border-green-500"
+                      />
+                    </td>
+                    {RESOLUTIONS.map(res => (
+                      <td key={res} className="py-1.5 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.001}
+                          value={price.perImage[res]}
+                          onChange={(e) => updatePrice(model, { resolution: res, perImage: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className="w-20 px-1.5 py-0.5 rounded border border-slate-300 text-right outline-none focus:border-green-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="text-xs text-slate-400 hover:text-red-600 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Clear usage data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { SheetDimensions, clampMargin, getPrintPixelSize } from './layout';
+import { setPngDpi } from './png';
+import { bytesToDataUrl, dataUrlToBytes, loadImage } from './utils';
+
+// Lays out individual sticker images on a sheet ourselves instead of leaving it to the model.
+// All positions and sizes are in inches so the layout is independent of DPI and zoom.
+
+// A sticker image that can be placed (possibly several times)
+export interface ComposerSource {
+  id: string;
+  src: string; // Transparent PNG data URL
+  width: number; // Pixels
+  height: number; // Pixels
+}
+
+export interface ComposerItem {
+  id: string;
+  sourceId: string;
+  src: string;
+  x: number; // Center, inches from the left edge of the sheet
+  y: number; // Center, inches from the top edge of the sheet
+  width: number; // Unrotated width in inches
+  height: number; // Unrotated height in inches
+  rotation: number; // Degrees, clockwise
+}
+
+export interface PackOptions {
+  gapInches: number; // Minimum clear space between stickers
+  marginInches: number; // Printer-safe margin kept clear on every side
+  allowRotation: boolean; // Let the packer turn stickers by 90°
+}
+
+export const DEFAULT_PACK_OPTIONS: PackOptions = {
+  gapInches: 0.125,
+  marginInches: 0.125,
+  allowRotation: true,
+};
+
+export const GAP_OPTIONS = [0.0625, 0.125, 0.25];
+export const DEFAULT_STICKER_INCHES = 1.5;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Size of a new item whose longest side is `longestInches`
+export const sizeForSource = (source: ComposerSource, longestInches: number): { width: number; height: number } => {
+  const scale = longestInches / Math.max(source.width, source.height);
+  return { width: source.width * scale, height: source.height * scale };
+};
+
+// Axis-aligned box around a (rotated) item
+export const itemBounds = (item: ComposerItem): Rect => {
+  const radians = (item.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const width = item.width * cos + item.height * sin;
+  const height = item.width * sin + item.height * cos;
+  return { x: item.x - width / 2, y: item.y - height / 2, width, height };
+};
+
+const contains = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x && inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// Split each free rectangle around a newly used one (MaxRects), then drop the ones inside others
+const splitFreeRects = (free: Rect[], used: Rect): Rect[] => {
+  const next: Rect[] = [];
+  for (const rect of free) {
+    if (!intersects(rect, used)) {
+      next.push(rect);
+      continue;
+    }
+    if (used.x > rect.x) next.push({ ...rect, width: used.x - rect.x });
+    if (used.x + used.width < rect.x + rect.width) {
+      next.push({ ...rect, x: used.x + used.width, width: rect.x + rect.width - used.x - used.width });
+    }
+    if (used.y > rect.y) next.push({ ...rect, height: used.y - rect.y });
+    if (used.y + used.height < rect.y + rect.height) {
+      next.push({ ...rect, y: used.y + used.height, height: rect.y + rect.height - used.y - used.height });
+    }
+  }
+  return next.filter((rect, i) => !next.some((other, j) => j !== i && contains(other, rect) && (!contains(rect, other) || j < i)));
+};
+
+export interface PackResult {
+  items: ComposerItem[]; // Placed items, rotation reset to 0° or 90°
+  unplaced: string[]; // Ids of items that did not fit
+}
+
+// MaxRects bin packing (best short side fit), largest stickers first. Each sticker is
+// grown by the gap on the right and bottom, and the bin by the same amount, so stickers
+// keep the gap between each other but may touch the margin. `fixed` items stay where
+// they are and are packed around.
+export const packItems = (
+  items: ComposerItem[],
+  sheet: SheetDimensions,
+  options: PackOptions,
+  fixed: ComposerItem[] = []
+): PackResult => {
+  const margin = clampMargin(sheet, options.marginInches);
+  const gap = options.gapInches;
+  let free: Rect[] = [{ x: margin, y: margin, width: sheet.width - margin * 2 + gap, height: sheet.height - margin * 2 + gap }];
+  for (const item of fixed) {
+    const box = itemBounds(item);
+    free = splitFreeRects(free, { ...box, width: box.width + gap, height: box.height + gap });
+  }
+
+  const placed: ComposerItem[] = [];
+  const unplaced: string[] = [];
+  const order = [...items].sort((a, b) => b.width * b.height - a.width * a.height || Math.max(b.width, b.height) - Math.max(a.width, a.height));
+
+  for (const item of order) {
+    let best: { rect: Rect; rotated: boolean; shortSide: number; longSide: number } | null = null;
+    const orientations = options.allowRotation && Math.abs(item.width - item.height) > 1e-6 ? [false, true] : [false];
+
+    for (const rotated of orientations) {
+      const width = (rotated ? item.height : item.width) + gap;
+      const height = (rotated ? item.width : item.height) + gap;
+      for (const rect of free) {
+        if (width > rect.width + 1e-9 || height > rect.height + 1e-9) continue;
+        const shortSide = Math.min(rect.width - width, rect.height - height);
+        const longSide = Math.max(rect.width - width, rect.height - height);
+        if (!best || shortSide < best.shortSide || (shortSide === best.shortSide && longSide < best.longSide)) {
+          best = { rect: { x: rect.x, y: rect.y, width, height }, rotated, shortSide, longSide };
+        }
+      }
+    }
+
+    if (!best) {
+      unplaced.push(item.id);
+      continue;
+    }
+    free = splitFreeRects(free, best.rect);
+    const footprintWidth = best.rect.width - gap;
+    const footprintHeight = best.rect.height - gap;
+    placed.push({
+      ...item,
+      x: best.rect.x + footprintWidth / 2,
+      y: best.rect.y + footprintHeight / 2,
+      rotation: best.rotated ? 90 : 0,
+    });
+  }
+
+  // Keep the caller's order so the layer stacking does not change
+  const byId = new Map(placed.map(item => [item.id, item]));
+  return { items: items.map(item => byId.get(item.id) || item), unplaced };
+};
+
+// Scale every item by the same factor, as large as possible while everything still packs
+export const fillSheet = (items: ComposerItem[], sheet: SheetDimensions, options: PackOptions): PackResult => {
+  const scaled = (factor: number) => items.map(item => ({ ...item, width: item.width * factor, height: item.height * factor }));
+  let low = 0;
+  let high = 1;
+  // Grow the upper bound until packing fails, so small layouts can also be enlarged
+  while (high < 64 && packItems(scaled(high), sheet, options).unplaced.length === 0) {
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (packItems(scaled(mid), sheet, options).unplaced.length === 0) low = mid;
+    else high = mid;
+  }
+  return low > 0 ? packItems(scaled(low), sheet, options) : packItems(items, sheet, options);
+};
+
+// Ids of items that leave the printable area or come closer than the gap to another item.
+// Uses the boxes around rotated items, so freely rotated stickers are flagged conservatively.
+export const findLayoutIssues = (items: ComposerItem[], sheet: SheetDimensions, options: PackOptions): Set<string> => {
+  const margin = clampMargin(sheet, options.marginInches);
+  const printable: Rect = { x: margin, y: margin, width: sheet.width - margin * 2, height: sheet.height - margin * 2 };
+  const tolerance = 1e-6;
+  const bounds = items.map(itemBounds);
+  const issues = new Set<string>();
+
+  bounds.forEach((box, i) => {
+    const inset = { x: box.x + tolerance, y: box.y + tolerance, width: box.width - tolerance * 2, height: box.height - tolerance * 2 };
+    if (!contains(printable, inset)) issues.add(items[i].id);
+    // Two boxes are too close when growing one by the gap on every side makes them overlap
+    const reach = options.gapInches - tolerance;
+    const grown = { x: box.x - reach, y: box.y - reach, width: box.width + reach * 2, height: box.height + reach * 2 };
+    for (let j = i + 1; j < bounds.length; j++) {
+      if (intersects(grown, bounds[j])) {
+        issues.add(items[i].id);
+        issues.add(items[j].id);
+      }
+    }
+  });
+  return issues;
+};
+
+// Draw the layout at print size. Returns a PNG tagged with the DPI, transparent unless a background is given.
+export const renderComposition = async (
+  items: ComposerItem[],
+  sheet: SheetDimensions,
+  dpi: number,
+  backgroundColor?: string
+): Promise<string> => {
+  const { width, height } = getPrintPixelSize(sheet, dpi);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+
+  if (backgroundColor) {
+    ctx.fillStyle = backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  ctx.imageSmoothingQuality = 'high';
+  for (const item of items) {
+    const img = await loadImage(item.src);
+    ctx.save();
+    ctx.translate(item.x * dpi, item.y * dpi);
+    ctx.rotate((item.rotation * Math.PI) / 180);
+    ctx.drawImage(img, (-item.width * dpi) / 2, (-item.height * dpi) / 2, item.width * dpi, item.height * dpi);
+    ctx.restore();
+  }
+
+  const png = setPngDpi(dataUrlToBytes(canvas.toDataURL('image/png')), dpi);
+  return bytesToDataUrl(png, 'image/png');
+};
@@ -0,0 +1,126 @@
+import { ExpressionGrid, PaletteColor, ReferenceImage } from './types';
+import { SheetDimensions } from './layout';
+import { RgbaBuffer } from './matting';
+import { hexToRgb } from './utils';
+
+// Keeps a character looking the same across independently generated sheets
+
+export const EXPRESSION_GRIDS: ExpressionGrid[] = [
+  {
+    id: 'emotions-4x4',
+    name: 'Emotions 4×4',
+    columns: 4,
+    expressions: [
+      'happy', 'sad', 'angry', 'surprised',
+      'laughing', 'crying', 'confused', 'sleepy',
+      'in love', 'scared', 'embarrassed', 'smug',
+      'excited', 'bored', 'disgusted', 'thinking',
+    ],
+  },
+  {
+    id: 'reactions-3x3',
+    name: 'Chat reactions 3×3',
+    columns: 3,
+    expressions: ['Hi!', 'Thanks', 'LOL', 'OK', 'Love it', 'Sorry', 'Wow', 'No way', 'Bye'],
+  },
+  {
+    id: 'basics-2x2',
+    name: 'Basics 2×2',
+    columns: 2,
+    expressions: ['happy', 'sad', 'angry', 'surprised'],
+  },
+];
+
+export const findExpressionGrid = (id: string): ExpressionGrid | null =>
+  EXPRESSION_GRIDS.find(grid => grid.id === id) || null;
+
+// Every character draws the whole grid, in grid order
+export const applyExpressionGrid = (references: ReferenceImage[], grid: ExpressionGrid): ReferenceImage[] =>
+  references.map(ref => ({ ...ref, captions: grid.expressions, stickerCount: grid.expressions.length }));
+
+// Landscape, so the turnaround views fit side by side
+export const MODEL_SHEET_DIMENSIONS: SheetDimensions = { width: 6, height: 4 };
+
+// A model sheet is stale once its reference is replaced or cropped
+export const modelSheetKey = (ref: ReferenceImage): string =>
+  ref.hash || `${ref.data.length}:${ref.data.slice(-32)}`;
+
+// Average color distance (CIE76) above which a sticker counts as off-model
+export const DRIFT_THRESHOLD = 22;
+
+const PALETTE_SIZE = 6;
+export const PALETTE_SAMPLE_EDGE = 96; // Palettes are taken from a downscaled copy
+
+// sRGB to CIE Lab (D65)
+const toLab = ([r, g, b]: [number, number, number]): [number, number, number] => {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+const labDistance = (a: [number, number, number], b: [number, number, number]): number => {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+};
+
+// Dominant colors of an image. Transparent pixels, the key color and near-white pixels
+// (die-cut borders, which the model sheet does not have) are not counted.
+// Runs in the image worker as the 'palette' pipeline step; see extractPalette in processing.ts.
+export const paletteFromPixels = ({ data }: RgbaBuffer, ignoreHex?: string): PaletteColor[] => {
+  const ignore = ignoreHex ? hexToRgb(ignoreHex) : null;
+
+  // 4 bits per channel buckets, keeping color sums for the average
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    if (data[i + 3] < 128) continue;
+    if (Math.min(r, g, b) > 235) continue;
+    if (ignore && Math.abs(r - ignore[0]) + Math.abs(g - ignore[1]) + Math.abs(b - ignore[2]) < 120) continue;
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+    total++;
+  }
+  if (total === 0) return [];
+
+  const top = Array.from(buckets.values()).sort((a, b) => b.count - a.count).slice(0, PALETTE_SIZE);
+  const counted = top.reduce((sum, bucket) => sum + bucket.count, 0);
+  return top.map(bucket => ({
+    rgb: [Math.round(bucket.r / bucket.count), Math.round(bucket.g / bucket.count), Math.round(bucket.b / bucket.count)],
+    weight: bucket.count / counted,
+  }));
+};
+
+// Weighted average distance from each color of `palette` to its closest canonical color
+export const paletteDrift = (palette: PaletteColor[], canonical: PaletteColor[]): number => {
+  if (palette.length === 0 || canonical.length === 0) return 0;
+  return palette.reduce((sum, color) =>
+    sum + color.weight * Math.min(...canonical.map(c => labDistance(color.rgb, c.rgb))), 0);
+};
+
+// Drift score per sticker id (keys of `palettes`) against the closest of the canonical palettes. Sticker
+// order on a sheet is not reliable enough to pair stickers with characters, so the best match counts.
+export const measurePaletteDrift = (
+  palettes: Record<string, PaletteColor[]>,
+  canonical: PaletteColor[][]
+): Record<string, number> => {
+  const scores: Record<string, number> = {};
+  if (canonical.length === 0) return scores;
+  for (const [id, palette] of Object.entries(palettes)) {
+    scores[id] = Math.min(...canonical.map(c => paletteDrift(palette, c)));
+  }
+  return scores;
+};
@@ -0,0 +1,355 @@
+import { alphaMask, labelComponents } from './segmentation';
+import { placeOnSheet, SheetDimensions, SheetPlacement } from './layout';
+import { RgbaBuffer } from './matting';
+
+export type CutFileFormat = 'svg' | 'pdf';
+
+// Spot color name recognised by print shop RIPs and cutter software
+export const CUT_CONTOUR_NAME = 'CutContour';
+
+export interface CutlineOptions {
+  bleedInches: number; // Offset of the cut line outside the artwork
+  alphaThreshold: number; // Pixels with alpha above this are artwork
+  chromaTolerance: number; // Tolerance used when keying out the sheet background
+  maxTraceSize: number; // Longest side of the mask used for tracing, in pixels
+  simplifyTolerance: number; // Max deviation when simplifying the contour, in trace pixels
+  minAreaRatio: number; // Shapes smaller than this fraction of the trace mask get no cut line
+}
+
+export const DEFAULT_CUTLINE_OPTIONS: CutlineOptions = {
+  bleedInches: 0.0625,
+  alphaThreshold: 32,
+  chromaTolerance: 100,
+  maxTraceSize: 1200,
+  simplifyTolerance: 0.8,
+  minAreaRatio: 0.0002,
+};
+
+type Point = [number, number];
+
+export type CutPath = Point[]; // Closed outline in image pixel coordinates
+
+// 8 neighbours in clockwise order (screen coordinates), starting west
+const DIRECTIONS: Point[] = [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+
+const directionIndex = (dx: number, dy: number): number =>
+  DIRECTIONS.findIndex(([x, y]) => x === dx && y === dy);
+
+// Max-pool a full resolution mask down to the trace resolution, with an empty border
+const downsampleMask = (mask: Uint8Array, width: number, height: number, scale: number, pad: number) => {
+  const outWidth = Math.ceil(width * scale) + pad * 2;
+  const outHeight = Math.ceil(height * scale) + pad * 2;
+  const out = new Uint8Array(outWidth * outHeight);
+  const columns = Int32Array.from({ length: width }, (_, x) => Math.floor(x * scale) + pad);
+
+  for (let y = 0; y < height; y++) {
+    const row = (Math.floor(y * scale) + pad) * outWidth;
+    const srcRow = y * width;
+    for (let x = 0; x < width; x++) {
+      if (mask[srcRow + x]) out[row + columns[x]] = 1;
+    }
+  }
+
+  return { mask: out, width: outWidth, height: outHeight };
+};
+
+// Grow the mask by a radius using a two-pass chamfer distance transform
+const dilateMask = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  if (radius <= 0) return mask;
+
+  const diagonal = Math.SQRT2;
+  const dist = new Float32Array(width * height);
+  for (let i = 0; i < dist.length; i++) dist[i] = mask[i] ? 0 : Infinity;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x > 0) d = Math.min(d, dist[i - 1] + 1);
+      if (y > 0) {
+        d = Math.min(d, dist[i - width] + 1);
+        if (x > 0) d = Math.min(d, dist[i - width - 1] + diagonal);
+        if (x < width - 1) d = Math.min(d, dist[i - width + 1] + diagonal);
+      }
+      dist[i] = d;
+    }
+  }
+
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x < width - 1) d = Math.min(d, dist[i + 1] + 1);
+      if (y < height - 1) {
+        d = Math.min(d, dist[i + width] + 1);
+        if (x < width - 1) d = Math.min(d, dist[i + width + 1] + diagonal);
+        if (x > 0) d = Math.min(d, dist[i + width - 1] + diagonal);
+      }
+      dist[i] = d;
+    }
+  }
+
+  const out = new Uint8Array(width * height);
+  for (let i = 0; i < out.length; i++) out[i] = dist[i] <= radius ? 1 : 0;
+  return out;
+};
+
+// Moore-neighbour tracing of the outer boundary of one labelled component.
+// `start` must be the component's first pixel in raster order, so its west neighbour is outside.
+const traceBoundary = (labels: Int32Array, width: number, height: number, label: number, start: number): Point[] => {
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+
+  const startX = start % width;
+  const startY = (start - startX) / width;
+  const contour: Point[] = [[startX, startY]];
+
+  let x = startX;
+  let y = startY;
+  let backDir = 0;
+  let firstMove = -1;
+  const maxSteps = width * height * 2;
+
+  for (let step = 0; step < maxSteps; step++) {
+    let move = -1;
+    for (let k = 1; k <= 8; k++) {
+      const d = (backDir + k) % 8;
+      if (inside(x + DIRECTIONS[d][0], y + DIRECTIONS[d][1])) {
+        move = d;
+        break;
+      }
+    }
+    if (move < 0) break; // Isolated pixel
+
+    // Back at the start and about to repeat the first move: the loop is closed
+    if (step === 0) firstMove = move;
+    else if (x === startX && y === startY && move === firstMove) break;
+
+    const prev = DIRECTIONS[(move + 7) % 8];
+    const backX = x + prev[0];
+    const backY = y + prev[1];
+    x += DIRECTIONS[move][0];
+    y += DIRECTIONS[move][1];
+    backDir = directionIndex(backX - x, backY - y);
+
+    if (x !== startX || y !== startY) contour.push([x, y]);
+  }
+
+  return contour;
+};
+
+const segmentDistance = (p: Point, a: Point, b: Point): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  return Math.abs(dy * p[0] - dx * p[1] + b[0] * a[1] - b[1] * a[0]) / Math.sqrt(lengthSq);
+};
+
+// Ramer–Douglas–Peucker simplification of a closed polygon
+const simplifyClosed = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 4) return points;
+
+  // Split the ring at the point farthest from the first one
+  let far = 0;
+  let farDistance = -1;
+  points.forEach((p, i) => {
+    const d = Math.hypot(p[0] - points[0][0], p[1] - points[0][1]);
+    if (d > farDistance) {
+      farDistance = d;
+      far = i;
+    }
+  });
+
+  const ring = [...points, points[0]];
+  const keep = new Uint8Array(ring.length);
+  keep[0] = 1;
+  keep[far] = 1;
+  keep[ring.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, far], [far, ring.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let index = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance(ring[i], ring[first], ring[last]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        index = i;
+      }
+    }
+    if (index >= 0) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return ring.slice(0, -1).filter((_, i) => keep[i]);
+};
+
+// Trace offset cut paths (in image pixel coordinates) around every shape of a keyed image
+export const traceCutPaths = (
+  imageData: RgbaBuffer,
+  bleedPixels: number,
+  options: CutlineOptions = DEFAULT_CUTLINE_OPTIONS
+): CutPath[] => {
+  const { width, height } = imageData;
+  const scale = Math.min(1, options.maxTraceSize / Math.max(width, height));
+  const bleed = bleedPixels * scale;
+  const pad = Math.ceil(bleed) + 2;
+
+  const full = alphaMask(imageData, options.alphaThreshold);
+  const small = downsampleMask(full, width, height, scale, pad);
+  const grown = dilateMask(small.mask, small.width, small.height, bleed);
+  const { labels, components } = labelComponents(grown, small.width, small.height);
+
+  const minArea = small.width * small.height * options.minAreaRatio;
+
+  return components
+    .filter(c => c.area >= minArea)
+    .map(c => traceBoundary(labels, small.width, small.height, c.label, c.start))
+    .map(contour => simplifyClosed(contour, options.simplifyTolerance))
+    .filter(contour => contour.length >= 3)
+    .map(contour => contour.map(([x, y]): Point => [(x - pad + 0.5) / scale, (y - pad + 0.5) / scale]));
+};
+
+// Cut paths for a keyed sheet image, the bleed given in inches on the printed sheet.
+// Runs in the image worker as the 'traceCut' pipeline step; see exportCutFile in processing.ts.
+export const traceSheetCutPaths = (
+  pixels: RgbaBuffer,
+  sheet: SheetDimensions,
+  options: CutlineOptions = DEFAULT_CUTLINE_OPTIONS
+): CutPath[] => {
+  const placement = placeOnSheet(pixels.width, pixels.height, sheet);
+  return traceCutPaths(pixels, options.bleedInches / placement.inchesPerPixel, options);
+};
+
+const round = (value: number) => Number(value.toFixed(4));
+
+// SVG with an artwork layer and a CutContour layer, in physical units
+export const buildCutlineSvg = (
+  imageSrc: string,
+  imageWidth: number,
+  imageHeight: number,
+  paths: CutPath[],
+  sheet: SheetDimensions,
+  placement: SheetPlacement
+): string => {
+  const { inchesPerPixel, offsetX, offsetY } = placement;
+  const toInches = ([x, y]: Point) => `${round(offsetX + x * inchesPerPixel)} ${round(offsetY + y * inchesPerPixel)}`;
+
+  const d = paths
+    .map(path => `M ${toInches(path[0])} ${path.slice(1).map(p => `L ${toInches(p)}`).join(' ')} Z`)
+    .join(' ');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"
+  width="${sheet.width}in" height="${sheet.height}in" viewBox="0 0 ${sheet.width} ${sheet.height}">
+  <g id="Artwork" inkscape:groupmode="layer" inkscape:label="Artwork">
+    <image x="${round(offsetX)}" y="${round(offsetY)}" width="${round(imageWidth * inchesPerPixel)}" height="${round(imageHeight * inchesPerPixel)}" preserveAspectRatio="none" xlink:href="${imageSrc}" />
+  </g>
+  <g id="${CUT_CONTOUR_NAME}" inkscape:groupmode="layer" inkscape:label="${CUT_CONTOUR_NAME}">
+    <path id="${CUT_CONTOUR_NAME}-path" d="${d}" fill="none" stroke="#FF00FF" stroke-width="0.01" />
+  </g>
+</svg>
+`;
+};
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// PDF with the artwork and a CutContour spot color path on separate optional content layers
+export const buildCutlinePdf = async (
+  imageData: ImageData,
+  paths: CutPath[],
+  sheet: SheetDimensions,
+  placement: SheetPlacement
+): Promise<Blob> => {
+  const { width, height, data } = imageData;
+  const rgb = new Uint8Array(width * height * 3);
+  const alpha = new Uint8Array(width * height);
+  for (let i = 0; i < alpha.length; i++) {
+    rgb[i * 3] = data[i * 4];
+    rgb[i * 3 + 1] = data[i * 4 + 1];
+    rgb[i * 3 + 2] = data[i * 4 + 2];
+    alpha[i] = data[i * 4 + 3];
+  }
+  const [rgbStream, alphaStream] = await Promise.all([deflate(rgb), deflate(alpha)]);
+
+  const pageWidth = sheet.width * 72;
+  const pageHeight = sheet.height * 72;
+  const { inchesPerPixel, offsetX, offsetY } = placement;
+  const toPoints = ([x, y]: Point) =>
+    `${round((offsetX + x * inchesPerPixel) * 72)} ${round(pageHeight - (offsetY + y * inchesPerPixel) * 72)}`;
+
+  const imageWidthPt = width * inchesPerPixel * 72;
+  const imageHeightPt = height * inchesPerPixel * 72;
+  const pathOps = paths
+    .map(path => [`${toPoints(path[0])} m`, ...path.slice(1).map(p => `${toPoints(p)} l`), 'h'].join('\n'))
+    .join('\n');
+
+  const content = [
+    '/OC /Art BDC',
+    'q',
+    `${round(imageWidthPt)} 0 0 ${round(imageHeightPt)} ${round(offsetX * 72)} ${round(pageHeight - offsetY * 72 - imageHeightPt)} cm`,
+    '/Im1 Do',
+    'Q',
+    'EMC',
+    '/OC /Cut BDC',
+    'q',
+    `/${CUT_CONTOUR_NAME} CS 1 SCN 0.25 w`,
+    pathOps,
+    'S',
+    'Q',
+    'EMC',
+  ].join('\n');
+  const encoder = new TextEncoder();
+  const contentBytes = encoder.encode(content);
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, dict: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${dict}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  write('%PDF-1.5\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R /OCProperties << /OCGs [7 0 R 8 0 R] /D << /Order [7 0 R 8 0 R] /ON [7 0 R 8 0 R] >> >> >>');
+  writeObject(2, '<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  writeObject(3, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(pageWidth)} ${round(pageHeight)}] /TrimBox [0 0 ${round(pageWidth)} ${round(pageHeight)}] /Contents 4 0 R /Resources << /XObject << /Im1 5 0 R >> /ColorSpace << /${CUT_CONTOUR_NAME} 9 0 R >> /Properties << /Art 7 0 R /Cut 8 0 R >> >> >>`);
+  writeObject(4, `<< /Length ${contentBytes.length} >>`, contentBytes);
+  writeObject(5, `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /SMask 6 0 R /Length ${rgbStream.length} >>`, rgbStream);
+  writeObject(6, `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${alphaStream.length} >>`, alphaStream);
+  writeObject(7, '<< /Type /OCG /Name (Artwork) >>');
+  writeObject(8, `<< /Type /OCG /Name (${CUT_CONTOUR_NAME}) >>`);
+  writeObject(9, `[/Separation /${CUT_CONTOUR_NAME} /DeviceCMYK << /FunctionType 2 /Domain [0 1] /C0 [0 0 0 0] /C1 [0 1 0 0] /N 1 >>]`);
+
+  const xrefOffset = length;
+  const objectCount = offsets.length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,56 @@
+// Shared IndexedDB database for everything persisted beyond localStorage
+
+const DB_NAME = 'sticker_genius';
+const DB_VERSION = 3;
+
+export const HISTORY_STORE = 'history';
+export const PROJECTS_STORE = 'projects';
+
+// History indexes. The size index has the size in its key, so the quota check never loads the images.
+export const HISTORY_SIZE_INDEX = 'createdAtSize';
+export const HISTORY_PROJECT_INDEX = 'projectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const history = db.objectStoreNames.contains(HISTORY_STORE)
+        ? request.transaction!.objectStore(HISTORY_STORE)
+        : db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+      if (!history.indexNames.contains('createdAt')) history.createIndex('createdAt', 'createdAt');
+      if (!history.indexNames.contains(HISTORY_SIZE_INDEX)) history.createIndex(HISTORY_SIZE_INDEX, ['createdAt', 'sizeBytes']);
+      if (!history.indexNames.contains(HISTORY_PROJECT_INDEX)) history.createIndex(HISTORY_PROJECT_INDEX, 'projectId');
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Wait for a readwrite transaction to commit
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,114 @@
+import { HistoryEntry } from './types';
+import { HISTORY_PROJECT_INDEX, HISTORY_SIZE_INDEX, HISTORY_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+
+// Oldest runs are evicted once the stored images exceed this size
+export const HISTORY_QUOTA_BYTES = 250 * 1024 * 1024;
+
+// Approximate storage used by an entry; the base64 images dominate
+export const estimateEntrySize = (entry: Omit<HistoryEntry, 'sizeBytes'>): number =>
+  entry.sheets.reduce((sum, sheet) =>
+    sum + sheet.versions.reduce((total, version) => total + version.src.length + version.rawSrc.length, 0), 0) +
+  entry.referenceImages.reduce((sum, ref) => sum + ref.data.length, 0) +
+  entry.prompt.length;
+
+// All runs, newest first
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+  const entries = await requestToPromise<HistoryEntry[]>(store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Runs of one project, newest first
+export const listProjectHistory = async (projectId: string): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index(HISTORY_PROJECT_INDEX);
+  const entries = await requestToPromise<HistoryEntry[]>(index.getAll(projectId));
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const deleteHistoryEntries = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(HISTORY_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+};
+
+export const deleteHistoryEntry = (id: string): Promise<void> => deleteHistoryEntries([id]);
+
+export const deleteProjectHistory = async (projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index(HISTORY_PROJECT_INDEX);
+  const ids = await requestToPromise(index.getAllKeys(projectId));
+  await deleteHistoryEntries(ids.map(String));
+};
+
+// Id and size of every run, oldest first, read from the index keys only
+const listEntrySizes = async (): Promise<Array<{ id: string; sizeBytes: number }>> => {
+  const db = await openDatabase();
+  const index = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).index(HISTORY_SIZE_INDEX);
+  return new Promise((resolve, reject) => {
+    const sizes: Array<{ id: string; sizeBytes: number }> = [];
+    const request = index.openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(sizes);
+        return;
+      }
+      const [, sizeBytes] = cursor.key as [number, number];
+      sizes.push({ id: cursor.primaryKey as string, sizeBytes });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Delete oldest entries until the total size fits the quota. Returns the ids removed.
+const enforceQuota = async (quotaBytes: number): Promise<string[]> => {
+  const entries = await listEntrySizes();
+  let total = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const evicted: string[] = [];
+
+  // Never evict the newest entry, even if it alone exceeds the quota
+  for (let i = 0; i < entries.length - 1 && total > quotaBytes; i++) {
+    total -= entries[i].sizeBytes;
+    evicted.push(entries[i].id);
+  }
+
+  await deleteHistoryEntries(evicted);
+  return evicted;
+};
+
+// Record a run and evict old ones if the quota is exceeded
+export const addHistoryEntry = async (
+  entry: Omit<HistoryEntry, 'sizeBytes'>,
+  quotaBytes: number = HISTORY_QUOTA_BYTES
+): Promise<HistoryEntry> => {
+  const stored: HistoryEntry = { ...entry, sizeBytes: estimateEntrySize(entry) };
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  transaction.objectStore(HISTORY_STORE).put(stored);
+  await transactionDone(transaction);
+  await enforceQuota(quotaBytes);
+  return stored;
+};
+
+// Case-insensitive match against prompt, model, reference names, captions and date
+export const matchesHistorySearch = (entry: HistoryEntry, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    entry.prompt,
+    entry.model,
+    new Date(entry.createdAt).toLocaleString(),
+    entry.config.sheetSize,
+    entry.config.resolution,
+    ...entry.referenceImages.flatMap(ref => [ref.name, ref.note, ...ref.captions]),
+  ].join(' ').toLowerCase();
+
+  return haystack.includes(needle);
+};
@@ -0,0 +1,59 @@
+import { PipelineRequest, PipelineResponse, resultTransfers, runSteps } from './pipeline';
+import { RgbaBuffer } from './matting';
+import { fitWithin } from './utils';
+
+// Image-processing worker: decodes with OffscreenCanvas, runs the pipeline steps and
+// hands the pixels (transferred), an encoded PNG or just the analysis results back to the main thread.
+
+const worker = self as unknown as Worker;
+
+// Minimum change in progress worth a message
+const PROGRESS_STEP = 0.01;
+
+const decode = async (blob: Blob, maxEdge = Infinity): Promise<ImageData> => {
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, maxEdge);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const encode = (pixels: RgbaBuffer): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(pixels.width, pixels.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+};
+
+worker.addEventListener('message', async (event: MessageEvent<PipelineRequest>) => {
+  const { id, input, steps, output } = event.data;
+  const post = (response: PipelineResponse, transfer: Transferable[] = []) => worker.postMessage(response, transfer);
+
+  try {
+    const pixels: RgbaBuffer = input.kind === 'image' ? await decode(input.blob, input.maxEdge) : input.pixels;
+
+    let lastReported = 0;
+    const results = runSteps(pixels, steps, (progress) => {
+      if (progress - lastReported >= PROGRESS_STEP || progress === 1) {
+        lastReported = progress;
+        post({ id, type: 'progress', progress });
+      }
+    });
+
+    const transfers = resultTransfers(results);
+    if (output === 'png') {
+      post({ id, type: 'done', png: await encode(pixels), results }, transfers);
+    } else if (output === 'pixels') {
+      const result = { data: pixels.data, width: pixels.width, height: pixels.height };
+      post({ id, type: 'done', pixels: result, results }, [result.data.buffer, ...transfers]);
+    } else {
+      post({ id, type: 'done', results }, transfers);
+    }
+  } catch (err: any) {
+    post({ id, type: 'error', message: err?.message || 'Image processing failed.' });
+  }
+});
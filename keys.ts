@@ -0,0 +1,94 @@
+// Named API keys, kept in memory and optionally saved to localStorage encrypted with a passphrase
+
+export interface NamedApiKey {
+  id: string;
+  name: string;
+  key: string;
+}
+
+// AES-GCM ciphertext of the JSON key list; the passphrase itself is never stored
+interface KeyVault {
+  version: 1;
+  salt: string; // base64
+  iv: string; // base64
+  data: string; // base64
+}
+
+const KEY_VAULT_KEY = 'sticker_genius_keys';
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Returns an error message, or null if the passphrase is acceptable
+export const validatePassphrase = (passphrase: string): string | null =>
+  passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters for the passphrase.` : null;
+
+export const hasSavedKeys = (): boolean => {
+  try {
+    return !!localStorage.getItem(KEY_VAULT_KEY);
+  } catch {
+    return false;
+  }
+};
+
+export const saveKeys = async (keys: NamedApiKey[], passphrase: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cryptoKey = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(JSON.stringify(keys)));
+  const vault: KeyVault = { version: 1, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  localStorage.setItem(KEY_VAULT_KEY, JSON.stringify(vault));
+};
+
+// Decrypt the saved keys. A wrong passphrase fails the GCM tag check.
+export const unlockKeys = async (passphrase: string): Promise<NamedApiKey[]> => {
+  const stored = localStorage.getItem(KEY_VAULT_KEY);
+  if (!stored) throw new Error("No saved keys found.");
+
+  let vault: KeyVault;
+  try {
+    vault = JSON.parse(stored);
+  } catch {
+    throw new Error("Saved keys are corrupted. Forget them and add your keys again.");
+  }
+
+  const cryptoKey = await deriveKey(passphrase, fromBase64(vault.salt));
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, cryptoKey, fromBase64(vault.data));
+  } catch {
+    throw new Error("Wrong passphrase.");
+  }
+  return JSON.parse(new TextDecoder().decode(plain));
+};
+
+export const forgetSavedKeys = () => {
+  localStorage.removeItem(KEY_VAULT_KEY);
+};
+
+// Enough of a key to tell several apart without revealing it
+export const maskKey = (key: string): string =>
+  key.length > 12 ? `${key.slice(0, 6)}…${key.slice(-4)}` : '••••';
@@ -0,0 +1,180 @@
+import { AppConfig, LengthUnit, PrintDpi, SheetSizePreset } from './types';
+import { setPngDpi } from './png';
+import { bytesToDataUrl, dataUrlToBytes, loadImage } from './utils';
+
+// Aspect ratios the image model can generate natively
+export const MODEL_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+export const PRINT_DPI_OPTIONS: PrintDpi[] = [150, 300, 600];
+
+export interface SheetDimensions {
+  width: number; // Inches
+  height: number; // Inches
+}
+
+export interface SheetSizeOption extends SheetDimensions {
+  id: Exclude<SheetSizePreset, 'custom'>;
+  label: string;
+}
+
+// Standard paper sizes, in inches
+export const SHEET_SIZE_OPTIONS: SheetSizeOption[] = [
+  { id: '4x6', label: '4" × 6"', width: 4, height: 6 },
+  { id: '5x7', label: '5" × 7"', width: 5, height: 7 },
+  { id: '3x3', label: '3" × 3"', width: 3, height: 3 },
+  { id: '8.5x11', label: 'Letter', width: 8.5, height: 11 },
+  { id: 'a4', label: 'A4', width: 210 / 25.4, height: 297 / 25.4 },
+  { id: 'a5', label: 'A5', width: 148 / 25.4, height: 210 / 25.4 },
+];
+
+export const LENGTH_UNITS: LengthUnit[] = ['in', 'mm', 'cm'];
+
+const INCHES_PER_UNIT: Record<LengthUnit, number> = {
+  in: 1,
+  mm: 1 / 25.4,
+  cm: 1 / 2.54,
+};
+
+// Decimal places that make sense when showing a length in each unit
+const UNIT_PRECISION: Record<LengthUnit, number> = {
+  in: 2,
+  mm: 0,
+  cm: 1,
+};
+
+export const toInches = (value: number, unit: LengthUnit): number => value * INCHES_PER_UNIT[unit];
+
+export const fromInches = (inches: number, unit: LengthUnit): number =>
+  Number((inches / INCHES_PER_UNIT[unit]).toFixed(UNIT_PRECISION[unit]));
+
+// Range a home or office printer can handle (short side up to 13", long side up to 19")
+export const PRINTABLE_BOUNDS = {
+  minSide: 1,
+  maxShortSide: 13,
+  maxLongSide: 19,
+};
+
+// Validate a custom sheet size, returning an error message or null
+export const validateSheetSize = (width: number, height: number, unit: LengthUnit): string | null => {
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) {
+    return "Enter a width and height greater than zero.";
+  }
+
+  const shortSide = Math.min(toInches(width, unit), toInches(height, unit));
+  const longSide = Math.max(toInches(width, unit), toInches(height, unit));
+  const format = (inches: number) => `${fromInches(inches, unit)} ${unit}`;
+
+  if (shortSide < PRINTABLE_BOUNDS.minSide) {
+    return `Each side must be at least ${format(PRINTABLE_BOUNDS.minSide)}.`;
+  }
+  if (shortSide > PRINTABLE_BOUNDS.maxShortSide || longSide > PRINTABLE_BOUNDS.maxLongSide) {
+    return `Sheet must fit within ${format(PRINTABLE_BOUNDS.maxShortSide)} × ${format(PRINTABLE_BOUNDS.maxLongSide)}.`;
+  }
+  return null;
+};
+
+// Physical size of the configured sheet in inches
+export const getSheetDimensions = (
+  config: Pick<AppConfig, 'sheetSize' | 'customWidth' | 'customHeight' | 'customUnit'>
+): SheetDimensions => {
+  if (config.sheetSize === 'custom') {
+    return {
+      width: toInches(config.customWidth, config.customUnit),
+      height: toInches(config.customHeight, config.customUnit),
+    };
+  }
+  const option = SHEET_SIZE_OPTIONS.find(o => o.id === config.sheetSize) || SHEET_SIZE_OPTIONS[0];
+  return { width: option.width, height: option.height };
+};
+
+// Size string used in prompts, e.g. 4''x6''
+export const formatSheetSize = (sheet: SheetDimensions): string =>
+  `${Number(sheet.width.toFixed(2))}''x${Number(sheet.height.toFixed(2))}''`;
+
+export interface SheetPlacement {
+  inchesPerPixel: number;
+  offsetX: number; // Inches from the left edge of the sheet
+  offsetY: number; // Inches from the top edge of the sheet
+}
+
+// Fit an image onto the sheet (centered, preserving aspect ratio)
+export const placeOnSheet = (imageWidth: number, imageHeight: number, sheet: SheetDimensions): SheetPlacement => {
+  const inchesPerPixel = Math.min(sheet.width / imageWidth, sheet.height / imageHeight);
+  return {
+    inchesPerPixel,
+    offsetX: (sheet.width - imageWidth * inchesPerPixel) / 2,
+    offsetY: (sheet.height - imageHeight * inchesPerPixel) / 2,
+  };
+};
+
+const ratioValue = (ratio: string): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+// Supported aspect ratio closest to the sheet's proportions (compared on a log scale)
+export const getModelAspectRatio = (sheet: SheetDimensions, supported: string[] = MODEL_ASPECT_RATIOS): string => {
+  const target = Math.log(sheet.width / sheet.height);
+  return supported.reduce((best, ratio) =>
+    Math.abs(Math.log(ratioValue(ratio)) - target) < Math.abs(Math.log(ratioValue(best)) - target) ? ratio : best
+  );
+};
+
+// Exact pixel size of the sheet at a given DPI
+export const getPrintPixelSize = (sheet: SheetDimensions, dpi: number): { width: number; height: number } => ({
+  width: Math.round(sheet.width * dpi),
+  height: Math.round(sheet.height * dpi),
+});
+
+// Largest margin that still leaves a printable area
+export const clampMargin = (sheet: SheetDimensions, marginInches: number): number =>
+  Math.max(0, Math.min(marginInches, Math.min(sheet.width, sheet.height) / 4));
+
+export interface PrintSheetOptions {
+  dpi: PrintDpi;
+  marginInches: number;
+  backgroundColor?: string; // Fill for margins and padding; transparent when omitted
+}
+
+// Rescale a generated image onto a canvas of the exact sheet size, padding to keep its
+// aspect ratio and keeping the printer-safe margin clear. Returns a PNG tagged with the DPI.
+export const renderPrintSheet = async (
+  imageSrc: string,
+  sheet: SheetDimensions,
+  options: PrintSheetOptions
+): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const { width, height } = getPrintPixelSize(sheet, options.dpi);
+  const margin = Math.round(clampMargin(sheet, options.marginInches) * options.dpi);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+
+  if (options.backgroundColor) {
+    ctx.fillStyle = options.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const areaWidth = width - margin * 2;
+  const areaHeight = height - margin * 2;
+  const scale = Math.min(areaWidth / img.width, areaHeight / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    img,
+    margin + (areaWidth - drawWidth) / 2,
+    margin + (areaHeight - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+
+  const png = setPngDpi(dataUrlToBytes(canvas.toDataURL('image/png')), options.dpi);
+  return bytesToDataUrl(png, 'image/png');
+};
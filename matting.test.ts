@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MATTING_OPTIONS, RgbaBuffer, applyMatte, chromaKey, detectBackgroundColor } from './matting';
+
+type Rgb = [number, number, number];
+
+// Solid background with a filled square in the middle
+const squareOnBackground = (size: number, background: Rgb, square: Rgb, inset: number): RgbaBuffer => {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inside = x >= inset && x < size - inset && y >= inset && y < size - inset;
+      data.set([...(inside ? square : background), 255], (y * size + x) * 4);
+    }
+  }
+  return { data, width: size, height: size };
+};
+
+const alphaAt = (pixels: RgbaBuffer, x: number, y: number) => pixels.data[(y * pixels.width + x) * 4 + 3];
+
+test('detectBackgroundColor finds the edge color', () => {
+  const pixels = squareOnBackground(20, [0, 255, 0], [200, 40, 40], 5);
+  assert.deepEqual(detectBackgroundColor(pixels), [0, 255, 0]);
+});
+
+test('detectBackgroundColor returns null for a non-uniform border', () => {
+  const pixels = squareOnBackground(20, [0, 255, 0], [200, 40, 40], 0);
+  // Every edge pixel a different color
+  for (let i = 0; i < pixels.data.length; i += 4) pixels.data.set([(i * 7) % 256, (i * 13) % 256, (i * 29) % 256], i);
+  assert.equal(detectBackgroundColor(pixels), null);
+});
+
+test('applyMatte clears the background and keeps the subject', () => {
+  const pixels = squareOnBackground(20, [0, 255, 0], [200, 40, 40], 5);
+  const keyed = applyMatte(pixels, '#00FF00', DEFAULT_MATTING_OPTIONS);
+  assert.equal(keyed, '#00FF00');
+  assert.equal(alphaAt(pixels, 0, 0), 0);
+  assert.equal(alphaAt(pixels, 10, 10), 255);
+});
+
+test('applyMatte keys the detected color over the requested one', () => {
+  const pixels = squareOnBackground(20, [250, 204, 21], [40, 40, 200], 5);
+  const keyed = applyMatte(pixels, '#00FF00', { ...DEFAULT_MATTING_OPTIONS, autoDetect: true });
+  assert.equal(keyed, '#FACC15');
+  assert.equal(alphaAt(pixels, 0, 0), 0);
+  assert.equal(alphaAt(pixels, 10, 10), 255);
+});
+
+test('applyMatte with flood fill keeps enclosed background-colored areas', () => {
+  // Green hole inside the red square is not connected to the border
+  const pixels = squareOnBackground(20, [0, 255, 0], [200, 40, 40], 5);
+  pixels.data.set([0, 255, 0, 255], (10 * 20 + 10) * 4);
+  applyMatte(pixels, '#00FF00', { ...DEFAULT_MATTING_OPTIONS, floodFill: true });
+  assert.equal(alphaAt(pixels, 0, 0), 0);
+  assert.equal(alphaAt(pixels, 10, 10), 255);
+});
+
+test('chromaKey clears only pixels within the tolerance', () => {
+  const pixels = squareOnBackground(20, [0, 255, 0], [200, 40, 40], 5);
+  chromaKey(pixels, '#00FF00', 80);
+  assert.equal(alphaAt(pixels, 0, 0), 0);
+  assert.equal(alphaAt(pixels, 10, 10), 255);
+});
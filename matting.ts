@@ -0,0 +1,208 @@
+import { MattingOptions } from './types';
+import { hexToRgb } from './utils';
+
+// Raw RGBA pixels. ImageData fits this shape, but so does a plain object, which keeps
+// everything in this module free of DOM APIs and usable in workers and Node.
+export interface RgbaBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Receives the fraction (0-1) of the work done so far
+export type ProgressCallback = (progress: number) => void;
+
+// Pixels between progress reports
+const PROGRESS_INTERVAL = 1 << 16;
+
+export const DEFAULT_MATTING_OPTIONS: MattingOptions = {
+  innerTolerance: 60,
+  outerTolerance: 130,
+  spillStrength: 0.8,
+  floodFill: false,
+  autoDetect: true,
+};
+
+// Largest possible Euclidean distance in RGB space
+export const MAX_COLOR_DISTANCE = Math.ceil(Math.sqrt(3 * 255 * 255));
+
+type Rgb = [number, number, number];
+
+export const rgbToHex = ([r, g, b]: Rgb): string =>
+  `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+// Share of border samples that must agree before a detected color is trusted
+const MIN_BORDER_AGREEMENT = 0.3;
+
+// Most common color along the image edges, or null when the border is not a uniform background
+export const detectBackgroundColor = (imageData: RgbaBuffer): Rgb | null => {
+  const { data, width, height } = imageData;
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let samples = 0;
+
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] < 128) return;
+    // 5 bits per channel is coarse enough to absorb compression noise
+    const key = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+    samples++;
+  };
+
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  const best = Array.from(buckets.values()).reduce<{ count: number; r: number; g: number; b: number } | null>(
+    (top, bucket) => (!top || bucket.count > top.count ? bucket : top),
+    null
+  );
+  if (!best || best.count / samples < MIN_BORDER_AGREEMENT) return null;
+
+  const { count, r, g, b } = best;
+  return [Math.round(r / count), Math.round(g / count), Math.round(b / count)];
+};
+
+// Alpha from color distance: 0 up to the inner threshold, 255 from the outer one, linear in between
+const rampAlpha = (distance: number, inner: number, outer: number): number => {
+  if (distance <= inner) return 0;
+  if (distance >= outer) return 255;
+  return Math.round(((distance - inner) / (outer - inner)) * 255);
+};
+
+// Clear every pixel that is not reachable from the image border through (partly) transparent pixels
+const keepBorderConnected = (alpha: Uint8Array, width: number, height: number) => {
+  const total = width * height;
+  const visited = new Uint8Array(total);
+  const stack = new Int32Array(total);
+  let top = 0;
+
+  const push = (p: number) => {
+    if (!visited[p] && alpha[p] < 255) {
+      visited[p] = 1;
+      stack[top++] = p;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    push(x);
+    push((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    push(y * width);
+    push(y * width + width - 1);
+  }
+
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x > 0) push(p - 1);
+    if (x < width - 1) push(p + 1);
+    if (y > 0) push(p - width);
+    if (y < height - 1) push(p + width);
+  }
+
+  for (let p = 0; p < total; p++) {
+    if (!visited[p]) alpha[p] = 255;
+  }
+};
+
+// True when a pixel is opaque but touches a (partly) transparent neighbour
+const isEdgePixel = (alpha: Uint8Array, p: number, x: number, y: number, width: number, height: number): boolean =>
+  (x > 0 && alpha[p - 1] < 255) ||
+  (x < width - 1 && alpha[p + 1] < 255) ||
+  (y > 0 && alpha[p - width] < 255) ||
+  (y < height - 1 && alpha[p + width] < 255);
+
+// Pull the key color's dominant channel down towards the other two on edge pixels
+const suppressSpill = (data: Uint8ClampedArray, alpha: Uint8Array, key: Rgb, strength: number, width: number, height: number) => {
+  const channel = key.indexOf(Math.max(...key));
+  const others = [0, 1, 2].filter(c => c !== channel);
+  // A grey or dark key has no dominant channel to suppress
+  if (key[channel] - Math.max(key[others[0]], key[others[1]]) < 64) return;
+
+  for (let p = 0; p < alpha.length; p++) {
+    if (alpha[p] === 0) continue;
+    const x = p % width;
+    const y = (p - x) / width;
+    if (alpha[p] === 255 && !isEdgePixel(alpha, p, x, y, width, height)) continue;
+
+    const i = p * 4;
+    const limit = Math.max(data[i + others[0]], data[i + others[1]]);
+    const excess = data[i + channel] - limit;
+    if (excess > 0) data[i + channel] -= Math.round(excess * strength);
+  }
+};
+
+// Set alpha to 0 for every pixel close to the target color (in place)
+export const chromaKey = <T extends RgbaBuffer>(imageData: T, targetColorHex: string, tolerance: number = 80): T => {
+  const data = imageData.data;
+  const [rTarget, gTarget, bTarget] = hexToRgb(targetColorHex);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    // Euclidean distance
+    const distance = Math.sqrt(
+      Math.pow(r - rTarget, 2) +
+      Math.pow(g - gTarget, 2) +
+      Math.pow(b - bTarget, 2)
+    );
+
+    if (distance < tolerance) {
+      data[i + 3] = 0; // Set alpha to 0
+    }
+  }
+
+  return imageData;
+};
+
+// Matte the background out of an image (in place). Returns the background color that was keyed.
+export const applyMatte = (
+  imageData: RgbaBuffer,
+  targetColorHex: string,
+  options: MattingOptions = DEFAULT_MATTING_OPTIONS,
+  onProgress?: ProgressCallback
+): string => {
+  const { data, width, height } = imageData;
+  const key = (options.autoDetect && detectBackgroundColor(imageData)) || hexToRgb(targetColorHex);
+  const inner = Math.min(options.innerTolerance, options.outerTolerance);
+  const outer = Math.max(options.outerTolerance, inner + 1);
+
+  const alpha = new Uint8Array(width * height);
+  for (let p = 0; p < alpha.length; p++) {
+    const i = p * 4;
+    const dr = data[i] - key[0];
+    const dg = data[i + 1] - key[1];
+    const db = data[i + 2] - key[2];
+    alpha[p] = rampAlpha(Math.sqrt(dr * dr + dg * dg + db * db), inner, outer);
+    if (onProgress && p % PROGRESS_INTERVAL === 0) onProgress(0.6 * p / alpha.length);
+  }
+
+  if (options.floodFill) keepBorderConnected(alpha, width, height);
+  onProgress?.(0.75);
+  if (options.spillStrength > 0) suppressSpill(data, alpha, key, Math.min(1, options.spillStrength), width, height);
+  onProgress?.(0.95);
+
+  for (let p = 0; p < alpha.length; p++) {
+    const i = p * 4 + 3;
+    data[i] = Math.min(data[i], alpha[p]);
+  }
+
+  onProgress?.(1);
+  return rgbToHex(key);
+};
+
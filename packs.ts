@@ -0,0 +1,227 @@
+import JSZip from 'jszip';
+import { loadImage } from './utils';
+
+export type PackPlatform = 'telegram' | 'whatsapp' | 'signal';
+
+export interface PlatformSpec {
+  label: string;
+  size: number; // Target canvas side in px
+  square: boolean; // false: only the longer side must be exactly `size`
+  format: 'png' | 'webp';
+  maxBytes: number;
+  padding: number; // Clear margin kept around the artwork, in px
+  minStickers: number;
+  maxStickers: number;
+  trayIcon?: { size: number; maxBytes: number };
+}
+
+export const PLATFORM_SPECS: Record<PackPlatform, PlatformSpec> = {
+  telegram: {
+    label: 'Telegram',
+    size: 512,
+    square: false,
+    format: 'png',
+    maxBytes: 512 * 1024,
+    padding: 0,
+    minStickers: 1,
+    maxStickers: 120,
+  },
+  whatsapp: {
+    label: 'WhatsApp',
+    size: 512,
+    square: true,
+    format: 'webp',
+    maxBytes: 100 * 1024,
+    padding: 16,
+    minStickers: 3,
+    maxStickers: 30,
+    trayIcon: { size: 96, maxBytes: 50 * 1024 },
+  },
+  signal: {
+    label: 'Signal',
+    size: 512,
+    square: true,
+    format: 'webp',
+    maxBytes: 300 * 1024,
+    padding: 8,
+    minStickers: 1,
+    maxStickers: 200,
+  },
+};
+
+export const DEFAULT_EMOJI = '🙂';
+
+// Caption words and the emoji they map to; the first keyword found in a caption wins
+const EMOJI_KEYWORDS: Array<[RegExp, string]> = [
+  [/\b(love|heart|xoxo|kiss)/i, '❤️'],
+  [/\b(lol|haha|lmao|rofl|funny)/i, '😂'],
+  [/\b(hi|hello|hey|bye|wave)\b/i, '👋'],
+  [/\b(thanks?|thank you|thx|ty)\b/i, '🙏'],
+  [/\b(wow|omg|whoa|shock)/i, '😮'],
+  [/\b(sad|cry|sorry|miss)/i, '😢'],
+  [/\b(angry|mad|grr|ugh)/i, '😠'],
+  [/\b(sleep|tired|zzz|night)/i, '😴'],
+  [/\b(ok|okay|fine)\b/i, '👌'],
+  [/\b(yes|yay|nice|great|good|cool)\b/i, '👍'],
+  [/\b(no|nope|nah)\b/i, '🙅'],
+  [/\b(party|congrats|celebrate|birthday)/i, '🎉'],
+  [/\b(hmm|think|wonder)/i, '🤔'],
+  [/\b(coffee|morning)/i, '☕'],
+  [/\b(hungry|food|yum)/i, '😋'],
+  [/\b(cute|shy|blush)/i, '😊'],
+];
+
+// Best emoji for a caption word, or the default when nothing matches
+export const emojiForCaption = (caption: string): string =>
+  EMOJI_KEYWORDS.find(([pattern]) => pattern.test(caption))?.[1] || DEFAULT_EMOJI;
+
+export interface PackSticker {
+  src: string; // Transparent PNG cut from a sheet
+  caption: string;
+  emoji: string;
+}
+
+export interface PackMeta {
+  name: string;
+  publisher: string;
+}
+
+// Draw an image scaled to fit inside the platform canvas, centered, with the required padding
+const fitToCanvas = async (src: string, size: number, square: boolean, padding: number): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const inner = size - padding * 2;
+  const scale = Math.min(inner / img.width, inner / img.height);
+  const drawWidth = Math.max(1, Math.round(img.width * scale));
+  const drawHeight = Math.max(1, Math.round(img.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = square ? size : (drawWidth >= drawHeight ? size : drawWidth + padding * 2);
+  canvas.height = square ? size : (drawHeight > drawWidth ? size : drawHeight + padding * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, (canvas.width - drawWidth) / 2, (canvas.height - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode image."))), type, quality);
+  });
+
+// WebP qualities tried, best first, until the file fits the size limit
+const WEBP_QUALITIES = [0.95, 0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3];
+
+// Encode under the byte limit, stepping WebP quality down as needed. Throws when it cannot fit.
+const encodeWithinLimit = async (canvas: HTMLCanvasElement, format: 'png' | 'webp', maxBytes: number): Promise<Blob> => {
+  if (format === 'png') {
+    const blob = await toBlob(canvas, 'image/png');
+    if (blob.size > maxBytes) {
+      throw new Error(`PNG is ${Math.ceil(blob.size / 1024)} KB, over the ${Math.floor(maxBytes / 1024)} KB limit`);
+    }
+    return blob;
+  }
+
+  let smallest = Infinity;
+  for (const quality of WEBP_QUALITIES) {
+    const blob = await toBlob(canvas, 'image/webp', quality);
+    // Browsers without a WebP encoder silently fall back to PNG
+    if (blob.type !== 'image/webp') throw new Error("This browser cannot encode WebP; try Chrome, Edge or Firefox");
+    if (blob.size <= maxBytes) return blob;
+    smallest = Math.min(smallest, blob.size);
+  }
+  throw new Error(`Still ${Math.ceil(smallest / 1024)} KB at the lowest quality, over the ${Math.floor(maxBytes / 1024)} KB limit`);
+};
+
+export interface PackResult {
+  blob?: Blob; // Only set when every sticker met the spec
+  errors: string[];
+}
+
+const padIndex = (index: number) => String(index + 1).padStart(2, '0');
+
+// Package stickers in the folder layout each platform's tooling expects
+export const buildStickerPack = async (platform: PackPlatform, stickers: PackSticker[], meta: PackMeta): Promise<PackResult> => {
+  const spec = PLATFORM_SPECS[platform];
+  const errors: string[] = [];
+
+  if (!meta.name.trim()) errors.push("The pack needs a name.");
+  if (platform === 'whatsapp' && !meta.publisher.trim()) errors.push("WhatsApp packs need a publisher.");
+  if (stickers.length < spec.minStickers || stickers.length > spec.maxStickers) {
+    errors.push(`${spec.label} packs need ${spec.minStickers}-${spec.maxStickers} stickers; ${stickers.length} selected.`);
+  }
+
+  const files: Blob[] = [];
+  for (let i = 0; i < stickers.length; i++) {
+    const sticker = stickers[i];
+    if (!sticker.emoji.trim()) errors.push(`Sticker ${i + 1}: needs an emoji.`);
+    try {
+      const canvas = await fitToCanvas(sticker.src, spec.size, spec.square, spec.padding);
+      files.push(await encodeWithinLimit(canvas, spec.format, spec.maxBytes));
+    } catch (err: any) {
+      errors.push(`Sticker ${i + 1}: ${err.message}.`);
+    }
+  }
+
+  let trayIcon: Blob | undefined;
+  if (spec.trayIcon && stickers.length > 0) {
+    try {
+      const canvas = await fitToCanvas(stickers[0].src, spec.trayIcon.size, true, 0);
+      trayIcon = await encodeWithinLimit(canvas, 'png', spec.trayIcon.maxBytes);
+    } catch (err: any) {
+      errors.push(`Tray icon: ${err.message}.`);
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const zip = new JSZip();
+  const identifier = meta.name.trim().toLowerCase().replace(/[^a-z0-9_.-]+/g, '_').slice(0, 64) || 'stickers';
+  const fileName = (i: number) => `${padIndex(i)}.${spec.format}`;
+  // Several emoji can be given separated by spaces; WhatsApp allows up to three
+  const emojiList = (emoji: string): string[] => {
+    const list = emoji.trim().split(/\s+/).filter(Boolean);
+    return list.length > 0 ? list.slice(0, 3) : [DEFAULT_EMOJI];
+  };
+
+  if (platform === 'whatsapp') {
+    // Layout of the WhatsApp sample sticker app's assets folder
+    files.forEach((file, i) => zip.file(`${identifier}/${fileName(i)}`, file));
+    zip.file(`${identifier}/tray_icon.png`, trayIcon!);
+    zip.file('contents.json', JSON.stringify({
+      android_play_store_link: '',
+      ios_app_store_link: '',
+      sticker_packs: [{
+        identifier,
+        name: meta.name.trim(),
+        publisher: meta.publisher.trim(),
+        tray_image_file: 'tray_icon.png',
+        image_data_version: '1',
+        avoid_cache: false,
+        publisher_email: '',
+        publisher_website: '',
+        privacy_policy_website: '',
+        license_agreement_website: '',
+        stickers: stickers.map((sticker, i) => ({ image_file: fileName(i), emojis: emojiList(sticker.emoji) })),
+      }],
+    }, null, 2));
+  } else if (platform === 'signal') {
+    // One emoji per sticker; the first sticker doubles as the cover
+    files.forEach((file, i) => zip.file(fileName(i), file));
+    zip.file('manifest.json', JSON.stringify({
+      title: meta.name.trim(),
+      author: meta.publisher.trim(),
+      cover: { file: fileName(0), emoji: emojiList(stickers[0].emoji)[0] },
+      stickers: stickers.map((sticker, i) => ({ file: fileName(i), emoji: emojiList(sticker.emoji)[0] })),
+    }, null, 2));
+  } else {
+    // Files to send to @Stickers one by one, each followed by its emoji
+    files.forEach((file, i) => zip.file(fileName(i), file));
+    zip.file('emojis.json', JSON.stringify({
+      name: meta.name.trim(),
+      stickers: stickers.map((sticker, i) => ({ file: fileName(i), emoji: emojiList(sticker.emoji)[0], caption: sticker.caption })),
+    }, null, 2));
+  }
+
+  return { blob: await zip.generateAsync({ type: 'blob' }), errors: [] };
+};
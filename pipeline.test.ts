@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RgbaBuffer } from './matting';
+import { runSteps } from './pipeline';
+import { DEFAULT_SEGMENTATION_OPTIONS } from './segmentation';
+import { DEFAULT_CUTLINE_OPTIONS } from './cutline';
+
+// Left half one color, right half another
+const twoColors = (width: number, height: number, left: number[], right: number[]): RgbaBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set([...(i % width < width / 2 ? left : right), 255], i * 4);
+  return { data, width, height };
+};
+
+test('palette step reports the dominant colors without the ignored one', () => {
+  const pixels = twoColors(8, 8, [0, 255, 0], [200, 40, 40]);
+  const { palette, keyColors } = runSteps(pixels, [{ type: 'palette', ignoreColor: '#00FF00' }]);
+  assert.deepEqual(keyColors, ['']);
+  assert.deepEqual(palette, [{ rgb: [200, 40, 40], weight: 1 }]);
+});
+
+test('palette step skips pixels keyed out by an earlier step', () => {
+  const pixels = twoColors(8, 8, [0, 255, 0], [200, 40, 40]);
+  const { palette, keyColors } = runSteps(pixels, [
+    { type: 'chromaKey', color: '#00FF00', tolerance: 80 },
+    { type: 'palette' },
+  ]);
+  assert.deepEqual(keyColors, ['#00FF00', '']);
+  assert.deepEqual(palette, [{ rgb: [200, 40, 40], weight: 1 }]);
+});
+
+// Green 4x6" sheet at 15 px/inch with white-bordered red stickers at the given top-left corners
+const stickerSheet = (corners: Array<[number, number]>): RgbaBuffer => {
+  const width = 60, height = 90, size = 20;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set([0, 255, 0, 255], i * 4);
+  for (const [cx, cy] of corners) {
+    for (let y = cy; y < cy + size; y++) {
+      for (let x = cx; x < cx + size; x++) {
+        const border = x < cx + 4 || x >= cx + size - 4 || y < cy + 4 || y >= cy + size - 4;
+        data.set(border ? [255, 255, 255, 255] : [200, 40, 40, 255], (y * width + x) * 4);
+      }
+    }
+  }
+  return { data, width, height };
+};
+
+test('analyzeSheet step passes a sheet with the expected stickers', () => {
+  const pixels = stickerSheet([[5, 5], [35, 50]]);
+  const { sheetAnalysis } = runSteps(pixels, [
+    { type: 'analyzeSheet', keyColor: '#00FF00', sheet: { width: 4, height: 6 }, expectedCount: 2 },
+  ]);
+  assert.deepEqual(sheetAnalysis, { score: 100, passed: true, issues: [] });
+});
+
+test('analyzeSheet step fails a sheet with missing stickers', () => {
+  const pixels = stickerSheet([[5, 5], [35, 50]]);
+  const { sheetAnalysis } = runSteps(pixels, [
+    { type: 'analyzeSheet', keyColor: '#00FF00', sheet: { width: 4, height: 6 }, expectedCount: 3 },
+  ]);
+  assert.equal(sheetAnalysis?.passed, false);
+  assert.deepEqual(sheetAnalysis?.issues.map(issue => issue.check), ['count']);
+});
+
+test('segment step crops each keyed sticker with padding, in reading order', () => {
+  const pixels = stickerSheet([[35, 50], [5, 5]]);
+  const { stickers } = runSteps(pixels, [
+    { type: 'chromaKey', color: '#00FF00', tolerance: DEFAULT_SEGMENTATION_OPTIONS.chromaTolerance },
+    { type: 'segment', options: DEFAULT_SEGMENTATION_OPTIONS },
+  ]);
+  assert.deepEqual(stickers?.map(crop => crop.bounds), [
+    { x: 4, y: 4, width: 22, height: 22 },
+    { x: 34, y: 49, width: 22, height: 22 },
+  ]);
+  const [first] = stickers!;
+  // Padding is transparent, the sticker keeps its colors
+  assert.equal(first.pixels.data[3], 0);
+  assert.deepEqual([...first.pixels.data.slice((11 * 22 + 11) * 4, (11 * 22 + 11) * 4 + 4)], [200, 40, 40, 255]);
+});
+
+test('traceCut step outlines each keyed sticker', () => {
+  const pixels = stickerSheet([[5, 5], [35, 50]]);
+  const { cutPaths } = runSteps(pixels, [
+    { type: 'chromaKey', color: '#00FF00', tolerance: DEFAULT_CUTLINE_OPTIONS.chromaTolerance },
+    // A quarter inch is about 4 pixels at this sheet's 15 pixels per inch
+    { type: 'traceCut', sheet: { width: 4, height: 6 }, options: { ...DEFAULT_CUTLINE_OPTIONS, bleedInches: 0.25 } },
+  ]);
+  assert.equal(cutPaths?.length, 2);
+  // The first outline surrounds the first sticker (x 5-24), outside its edge by the bleed
+  const xs = cutPaths![0].map(([x]) => x);
+  assert.ok(Math.min(...xs) < 3 && Math.max(...xs) > 27);
+});
@@ -0,0 +1,85 @@
+import { MattingOptions, PaletteColor } from './types';
+import { RgbaBuffer, ProgressCallback, applyMatte, chromaKey } from './matting';
+import { paletteFromPixels } from './consistency';
+import { SheetAnalysis, analyzeSheetPixels } from './quality';
+import { SheetDimensions } from './layout';
+import { SegmentationOptions, StickerCrop, segmentPixels } from './segmentation';
+import { CutPath, CutlineOptions, traceSheetCutPaths } from './cutline';
+
+// Message protocol shared by the image worker and its main-thread fallback.
+// New post-processing steps only need a variant here and a case in runSteps.
+
+export type PipelineStep =
+  | { type: 'chromaKey'; color: string; tolerance: number }
+  | { type: 'matte'; color: string; options: MattingOptions }
+  | { type: 'palette'; ignoreColor?: string } // Analysis only, the pixels are left as they are
+  | { type: 'analyzeSheet'; keyColor: string; sheet: SheetDimensions; expectedCount: number } // Keys out keyColor
+  | { type: 'segment'; options: SegmentationOptions } // Sticker crops of an already keyed sheet
+  | { type: 'traceCut'; sheet: SheetDimensions; options: CutlineOptions }; // Cut paths of an already keyed sheet
+
+export type PipelineInput =
+  | { kind: 'image'; blob: Blob; maxEdge?: number } // Encoded image, decoded (and downscaled) by the worker
+  | { kind: 'pixels'; pixels: RgbaBuffer }; // Raw RGBA, buffer transferred to the worker
+
+export type PipelineOutput = 'png' | 'pixels' | 'none'; // 'none' when only the analysis results are wanted
+
+// What the steps found, next to the processed image
+export interface PipelineResults {
+  keyColors: string[]; // Key color each step used ('' when none)
+  palette?: PaletteColor[]; // From the last 'palette' step
+  sheetAnalysis?: SheetAnalysis; // From the last 'analyzeSheet' step
+  stickers?: StickerCrop[]; // From the last 'segment' step, buffers transferred back
+  cutPaths?: CutPath[]; // From the last 'traceCut' step
+}
+
+// Buffers in the results that can be transferred instead of copied
+export const resultTransfers = (results: PipelineResults): Transferable[] =>
+  (results.stickers || []).map(crop => crop.pixels.data.buffer);
+
+export interface PipelineRequest {
+  id: number;
+  input: PipelineInput;
+  steps: PipelineStep[];
+  output: PipelineOutput;
+}
+
+export type PipelineResponse =
+  | { id: number; type: 'progress'; progress: number } // 0-1 across all steps
+  | { id: number; type: 'done'; png?: Blob; pixels?: RgbaBuffer; results: PipelineResults }
+  | { id: number; type: 'error'; message: string };
+
+// Run every step over the pixels in place and collect what they found
+export const runSteps = (pixels: RgbaBuffer, steps: PipelineStep[], onProgress?: ProgressCallback): PipelineResults => {
+  const results: PipelineResults = { keyColors: [] };
+  results.keyColors = steps.map((step, index) => {
+    const report = (progress: number) => onProgress?.((index + progress) / steps.length);
+
+    switch (step.type) {
+      case 'chromaKey':
+        chromaKey(pixels, step.color, step.tolerance);
+        report(1);
+        return step.color;
+      case 'matte':
+        return applyMatte(pixels, step.color, step.options, report);
+      case 'palette':
+        results.palette = paletteFromPixels(pixels, step.ignoreColor);
+        report(1);
+        return '';
+      case 'analyzeSheet':
+        results.sheetAnalysis = analyzeSheetPixels(pixels, step.keyColor, step.sheet, step.expectedCount);
+        report(1);
+        return step.keyColor;
+      case 'segment':
+        results.stickers = segmentPixels(pixels, step.options);
+        report(1);
+        return '';
+      case 'traceCut':
+        results.cutPaths = traceSheetCutPaths(pixels, step.sheet, step.options);
+        report(1);
+        return '';
+      default:
+        return '';
+    }
+  });
+  return results;
+};
@@ -0,0 +1,86 @@
+// Minimal PNG chunk helpers (no decoding of image data)
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const METERS_PER_INCH = 0.0254;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+// CRC-32 as used by PNG chunks (and ZIP entries)
+export const crc32 = (bytes: Uint8Array, start: number = 0, end: number = bytes.length): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const isPng = (bytes: Uint8Array): boolean => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+const buildChunk = (type: string, payload: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + payload.length);
+  writeUint32(chunk, 0, payload.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(payload, 8);
+  writeUint32(chunk, 8 + payload.length, crc32(chunk, 4, 8 + payload.length));
+  return chunk;
+};
+
+// Write the physical resolution into the pHYs chunk so the PNG prints at the right size
+export const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  if (!isPng(bytes)) {
+    throw new Error("Not a PNG file");
+  }
+
+  const pixelsPerMeter = Math.round(dpi / METERS_PER_INCH);
+  const payload = new Uint8Array(9);
+  writeUint32(payload, 0, pixelsPerMeter);
+  writeUint32(payload, 4, pixelsPerMeter);
+  payload[8] = 1; // Unit: meter
+  const phys = buildChunk('pHYs', payload);
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+
+    // Drop any existing pHYs, insert ours right after the header
+    if (type !== 'pHYs') parts.push(bytes.subarray(offset, end));
+    if (type === 'IHDR') parts.push(phys);
+
+    offset = end;
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+};
@@ -0,0 +1,46 @@
+import { AppConfig, SavedPreset } from './types';
+import { createId } from './utils';
+
+const PRESETS_STORAGE_KEY = 'sticker_genius_presets';
+
+// Read named setups from local storage
+export const loadPresets = (): SavedPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+    return [];
+  } catch {
+    return [];
+  }
+};
+
+const savePresets = (presets: SavedPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+// Save the config under a name, replacing any preset with the same name
+export const upsertPreset = (name: string, config: AppConfig): SavedPreset[] => {
+  const presets = loadPresets();
+  const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+  const preset: SavedPreset = { id: existing?.id || createId(), name, config };
+  const next = existing
+    ? presets.map(p => (p.id === existing.id ? preset : p))
+    : [...presets, preset];
+  savePresets(next);
+  return next;
+};
+
+export const deletePreset = (id: string): SavedPreset[] => {
+  const next = loadPresets().filter(p => p.id !== id);
+  savePresets(next);
+  return next;
+};
+
+// Apply a stored config on top of the defaults, so presets saved by older versions stay valid
+export const applyPreset = (defaults: AppConfig, preset: SavedPreset): AppConfig => ({
+  ...defaults,
+  ...preset.config,
+});
@@ -0,0 +1,192 @@
+import { PipelineInput, PipelineOutput, PipelineRequest, PipelineResponse, PipelineResults, PipelineStep, runSteps } from './pipeline';
+import { RgbaBuffer, ProgressCallback } from './matting';
+import { GeneratedSheet, PaletteColor, StickerAsset } from './types';
+import { PALETTE_SAMPLE_EDGE } from './consistency';
+import { SHEET_ANALYSIS_EDGE, SheetAnalysis } from './quality';
+import { DEFAULT_SEGMENTATION_OPTIONS, SegmentationOptions } from './segmentation';
+import { CutFileFormat, DEFAULT_CUTLINE_OPTIONS, buildCutlinePdf, buildCutlineSvg } from './cutline';
+import { SheetDimensions, placeOnSheet } from './layout';
+import { bytesToDataUrl, createId, getImageData, imageDataToDataUrl, loadImage } from './utils';
+
+interface PendingRequest {
+  resolve: (response: Extract<PipelineResponse, { type: 'done' }>) => void;
+  reject: (err: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const supportsWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// Lazily start the shared worker; null when it is unavailable or has crashed
+const getWorker = (): Worker | null => {
+  if (workerFailed || !supportsWorker()) return null;
+  if (worker) return worker;
+
+  try {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.warn("Image worker unavailable, processing on the main thread", err);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<PipelineResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress);
+    } else {
+      pending.delete(response.id);
+      if (response.type === 'done') request.resolve(response);
+      else request.reject(new Error(response.message));
+    }
+  });
+
+  // A worker that fails to load or crashes fails everything in flight; later calls fall back
+  worker.addEventListener('error', (event) => {
+    console.error("Image worker failed", event);
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+    pending.forEach(request => request.reject(new Error("Image worker failed.")));
+    pending.clear();
+  });
+
+  return worker;
+};
+
+const postToWorker = (
+  target: Worker,
+  input: PipelineInput,
+  steps: PipelineStep[],
+  output: PipelineOutput,
+  onProgress?: ProgressCallback
+): Promise<Extract<PipelineResponse, { type: 'done' }>> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    const request: PipelineRequest = { id, input, steps, output };
+    pending.set(id, { resolve, reject, onProgress });
+    target.postMessage(request, input.kind === 'pixels' ? [input.pixels.data.buffer] : []);
+  });
+
+// Run the steps over an image (URL or data URL) and return the result as a PNG data URL
+export const processImage = async (
+  src: string,
+  steps: PipelineStep[],
+  onProgress?: ProgressCallback
+): Promise<PipelineResults & { src: string }> => {
+  const target = getWorker();
+  if (target) {
+    try {
+      const blob = await (await fetch(src)).blob();
+      const result = await postToWorker(target, { kind: 'image', blob }, steps, 'png', onProgress);
+      const bytes = new Uint8Array(await result.png!.arrayBuffer());
+      return { ...result.results, src: bytesToDataUrl(bytes, 'image/png') };
+    } catch (err) {
+      if (!workerFailed) throw err;
+    }
+  }
+
+  const imageData = await getImageData(src);
+  const results = runSteps(imageData, steps, onProgress);
+  return { ...results, src: imageDataToDataUrl(imageData) };
+};
+
+// Run analysis steps over an image downscaled to at most maxEdge pixels a side; no image comes back
+export const analyzeImage = async (src: string, steps: PipelineStep[], maxEdge = Infinity): Promise<PipelineResults> => {
+  const target = getWorker();
+  if (target) {
+    try {
+      const blob = await (await fetch(src)).blob();
+      return (await postToWorker(target, { kind: 'image', blob, maxEdge }, steps, 'none')).results;
+    } catch (err) {
+      if (!workerFailed) throw err;
+    }
+  }
+
+  return runSteps(await getImageData(src, maxEdge), steps);
+};
+
+// Dominant colors of an image, see paletteFromPixels
+export const extractPalette = async (src: string, ignoreHex?: string): Promise<PaletteColor[]> =>
+  (await analyzeImage(src, [{ type: 'palette', ignoreColor: ignoreHex }], PALETTE_SAMPLE_EDGE)).palette || [];
+
+// Quality checks of a raw sheet image, see analyzeSheetPixels
+export const analyzeSheet = async (
+  src: string,
+  keyColor: string,
+  sheet: SheetDimensions,
+  expectedCount: number
+): Promise<SheetAnalysis> =>
+  (await analyzeImage(src, [{ type: 'analyzeSheet', keyColor, sheet, expectedCount }], SHEET_ANALYSIS_EDGE)).sheetAnalysis!;
+
+// Run the steps over raw pixels. The input buffer is transferred to the worker, so the
+// caller must not use it afterwards; use the returned pixels instead.
+export const processPixels = async (
+  pixels: RgbaBuffer,
+  steps: PipelineStep[],
+  onProgress?: ProgressCallback
+): Promise<PipelineResults & { pixels: RgbaBuffer }> => {
+  const target = getWorker();
+  if (target) {
+    // No fallback once the buffer has been handed over
+    const result = await postToWorker(target, { kind: 'pixels', pixels }, steps, 'pixels', onProgress);
+    return { ...result.results, pixels: result.pixels! };
+  }
+
+  const results = runSteps(pixels, steps, onProgress);
+  return { ...results, pixels };
+};
+
+// Split a generated sheet into individual transparent sticker images. Keying and cropping run
+// in the image worker at full size; only the PNG encoding of each crop happens here.
+export const segmentSheet = async (
+  sheet: GeneratedSheet,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): Promise<StickerAsset[]> => {
+  const { stickers = [] } = await analyzeImage(sheet.src, [
+    { type: 'chromaKey', color: sheet.keyColor, tolerance: options.chromaTolerance },
+    { type: 'segment', options },
+  ]);
+  return stickers.map(crop => ({
+    id: createId(),
+    sheetId: sheet.id,
+    src: imageDataToDataUrl(crop.pixels),
+    bounds: crop.bounds,
+  }));
+};
+
+// Build a print-ready cut file for a generated sheet. The outlines are traced in the image worker.
+export const exportCutFile = async (
+  sheet: GeneratedSheet,
+  format: CutFileFormat,
+  bleedInches: number = DEFAULT_CUTLINE_OPTIONS.bleedInches
+): Promise<Blob> => {
+  const options = { ...DEFAULT_CUTLINE_OPTIONS, bleedInches };
+  const dimensions: SheetDimensions = { width: sheet.sheetWidth, height: sheet.sheetHeight };
+  const { cutPaths: paths = [] } = await analyzeImage(sheet.src, [
+    { type: 'chromaKey', color: sheet.keyColor, tolerance: options.chromaTolerance },
+    { type: 'traceCut', sheet: dimensions, options },
+  ]);
+
+  if (paths.length === 0) {
+    throw new Error("No sticker outlines found to trace.");
+  }
+
+  if (format === 'svg') {
+    const img = await loadImage(sheet.src);
+    const placement = placeOnSheet(img.width, img.height, dimensions);
+    const svg = buildCutlineSvg(sheet.src, img.width, img.height, paths, dimensions, placement);
+    return new Blob([svg], { type: 'image/svg+xml' });
+  }
+  // The PDF embeds the artwork's own pixels, unkeyed
+  const artwork = await getImageData(sheet.src);
+  return await buildCutlinePdf(artwork, paths, dimensions, placeOnSheet(artwork.width, artwork.height, dimensions));
+};
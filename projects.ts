@@ -0,0 +1,216 @@
+import { HistoryEntry, Project } from './types';
+import { PROJECTS_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+import { addHistoryEntry, deleteProjectHistory, estimateEntrySize, listProjectHistory } from './history';
+import { createId } from './utils';
+
+// Named workspaces: references, settings and results, saved in IndexedDB next to the history
+
+const ACTIVE_PROJECT_KEY = 'sticker_genius_active_project';
+const PROJECT_FILE_FORMAT = 'sticker-genius-project';
+const PROJECT_FILE_VERSION = 1;
+
+export const DEFAULT_PROJECT_NAME = 'My Project';
+
+export const getActiveProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveProjectId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+};
+
+// All projects, most recently saved first
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE);
+  const projects = await requestToPromise<Project[]>(store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE);
+  return (await requestToPromise<Project | undefined>(store.get(id))) || null;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(project);
+  await transactionDone(transaction);
+};
+
+// Remove a project together with its runs in the history
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  await transactionDone(transaction);
+  await deleteProjectHistory(id);
+};
+
+type ProjectContent = Omit<Project, 'id' | 'name' | 'createdAt' | 'updatedAt'>;
+
+// The current run gets a new id too, so later edits do not overwrite another project's history entry
+export const createProject = (name: string, content: ProjectContent): Project => {
+  const id = createId();
+  return {
+    ...content,
+    id,
+    name,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    run: content.run && { ...content.run, id: createId(), projectId: id },
+  };
+};
+
+// A name not used by another project, e.g. "Client A (2)"
+export const uniqueProjectName = (name: string, projects: Project[]): string => {
+  const taken = new Set(projects.map(p => p.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+};
+
+// Copy as a new starting point; the history stays with the original
+export const duplicateProject = (project: Project, name: string): Project => {
+  const { id, name: _, createdAt, updatedAt, ...content } = project;
+  return createProject(name, content);
+};
+
+// One JSON file with the project and its history. Images are already data URLs, so they come along.
+export const exportProject = async (project: Project): Promise<string> => {
+  const history = await listProjectHistory(project.id);
+  return JSON.stringify({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: Date.now(),
+    project,
+    history: history.map(({ sizeBytes, ...entry }) => entry),
+  });
+};
+
+const isProject = (value: any): value is Project =>
+  !!value &&
+  typeof value.name === 'string' &&
+  !!value.config && typeof value.config === 'object' &&
+  Array.isArray(value.referenceImages) &&
+  Array.isArray(value.sheets);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// What is wrong with one imported sheet, or null when it can be opened
+const sheetProblem = (sheet: any): string | null => {
+  if (!sheet || typeof sheet !== 'object') return "is not a sheet";
+  if (!isString(sheet.id) || !isString(sheet.src)) return "has no image";
+  if (!Array.isArray(sheet.versions) || sheet.versions.length === 0) return "has no image versions";
+  if (sheet.versions.some((version: any) => !version || !isString(version.src) || !isString(version.rawSrc))) {
+    return "has a version without an image";
+  }
+  if (!Number.isInteger(sheet.versionIndex) || sheet.versionIndex < 0 || sheet.versionIndex >= sheet.versions.length) {
+    return "selects a version that does not exist";
+  }
+  if (!isString(sheet.keyColor)) return "has no background color";
+  if (!isNumber(sheet.sheetWidth) || !isNumber(sheet.sheetHeight)) return "has no sheet size";
+  return null;
+};
+
+const referenceProblem = (reference: any): string | null => {
+  if (!reference || typeof reference !== 'object') return "is not a reference image";
+  if (!isString(reference.id) || !isString(reference.data) || !isString(reference.mimeType)) return "has no image";
+  if (!Array.isArray(reference.captions) || !reference.captions.every(isString)) return "has no caption list";
+  if (!isNumber(reference.stickerCount)) return "has no sticker count";
+  return null;
+};
+
+const modelSheetProblem = (modelSheet: any): string | null => {
+  if (!modelSheet || typeof modelSheet !== 'object') return "is not a model sheet";
+  if (!isString(modelSheet.referenceId) || !isString(modelSheet.referenceKey) || !isString(modelSheet.src)) return "has no image";
+  if (!Array.isArray(modelSheet.palette)) return "has no palette";
+  return null;
+};
+
+// First problem in a list, numbered from 1 as the user would count, e.g. "sheet 2 has no image versions"
+const listProblem = (items: any[], label: string, problem: (item: any) => string | null): string | null => {
+  for (let i = 0; i < items.length; i++) {
+    const found = problem(items[i]);
+    if (found) return `${label} ${i + 1} ${found}`;
+  }
+  return null;
+};
+
+// What is wrong with an imported project, or null when every part can be opened
+const projectProblem = (project: any): string | null => {
+  const problem = listProblem(project.sheets, 'sheet', sheetProblem) ||
+    listProblem(project.referenceImages, 'reference image', referenceProblem);
+  if (problem) return problem;
+  const { run, modelSheets } = project;
+  if (run != null) {
+    if (typeof run !== 'object' || !isString(run.prompt) || !Array.isArray(run.referenceImages)) {
+      return "the last run has no prompt or references";
+    }
+    const runProblem = listProblem(run.referenceImages, 'reference image of the last run', referenceProblem);
+    if (runProblem) return runProblem;
+  }
+  if (modelSheets != null) {
+    if (!Array.isArray(modelSheets)) return "the model sheets are not a list";
+    return listProblem(modelSheets, 'model sheet', modelSheetProblem);
+  }
+  return null;
+};
+
+// Store an exported project under a fresh id, so importing never overwrites a local project
+export const importProject = async (json: string, existing: Project[]): Promise<Project> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Project file is not valid JSON.");
+  }
+  if (parsed?.format !== PROJECT_FILE_FORMAT || !isProject(parsed.project)) {
+    throw new Error("This is not a StickerGenius project file.");
+  }
+  if (parsed.version > PROJECT_FILE_VERSION) {
+    throw new Error("This project was exported by a newer version of the app.");
+  }
+  const problem = projectProblem(parsed.project);
+  if (problem) throw new Error(`This project file is damaged: ${problem}.`);
+
+  const source = parsed.project;
+  const project = createProject(uniqueProjectName(source.name, existing), {
+    config: source.config,
+    referenceImages: source.referenceImages,
+    templates: Array.isArray(source.templates) ? source.templates : [],
+    sheets: source.sheets,
+    run: source.run || null,
+    modelSheets: Array.isArray(source.modelSheets) ? source.modelSheets : [],
+  });
+  await saveProject(project);
+
+  const history: Omit<HistoryEntry, 'sizeBytes'>[] = Array.isArray(parsed.history) ? parsed.history : [];
+  for (const entry of history) {
+    if (!entry || !Array.isArray(entry.sheets) || !Array.isArray(entry.referenceImages)) continue;
+    // A damaged run is left out rather than failing an otherwise good import
+    if (listProblem(entry.sheets, 'sheet', sheetProblem) || listProblem(entry.referenceImages, 'reference image', referenceProblem)) continue;
+    await addHistoryEntry({ ...entry, id: createId(), projectId: project.id });
+  }
+  return project;
+};
+
+// Approximate stored size, shown in the project list
+export const estimateProjectSize = (project: Project): number =>
+  estimateEntrySize({
+    id: project.id,
+    createdAt: project.createdAt,
+    model: project.config.model,
+    prompt: project.run?.prompt || '',
+    config: project.config,
+    referenceImages: project.referenceImages,
+    sheets: project.sheets,
+  }) + project.modelSheets.reduce((sum, sheet) => sum + sheet.src.length, 0);
@@ -0,0 +1,256 @@
+import { ExpressionGrid, PromptTemplate, ReferenceImage } from './types';
+import { createId } from './utils';
+
+const TEMPLATES_STORAGE_KEY = 'sticker_genius_templates';
+
+export const DEFAULT_TEMPLATE_ID = 'vinyl-3d';
+
+// Values available to templates as {{name}}
+export interface PromptVariables {
+  count: number; // Number of stickers on the sheet
+  size: string; // Physical sheet size, e.g. 4''x6''
+  background: string; // Description of the background color
+}
+
+export const TEMPLATE_VARIABLES: Array<{ name: keyof PromptVariables; description: string }> = [
+  { name: 'count', description: 'Number of stickers on the sheet' },
+  { name: 'size', description: "Sheet size, e.g. 4''x6''" },
+  { name: 'background', description: 'Background color description' },
+];
+
+const RETAIN_FEATURES = "CRITICAL: You must strictly retain all unique identifying features, colors, clothing, and ACCESSORIES (e.g., hats, glasses, items held) from the reference image.";
+
+const DEFAULT_LAYOUT = "Arrange the stickers in a flexible, non-grid, and appealing layout across the sheet. CRITICAL: Ensure ample spacing between all stickers. They must NOT overlap each other or the text. Each sticker must be fully separated.";
+
+const DEFAULT_CAPTIONS = "Include exactly ONE single word (e.g., 'YAY!', 'LOL', 'GRRR!') placed strictly NEXT TO its corresponding sticker. Use a handwritten, comic-style font. Do NOT use sentences or multiple words.";
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'vinyl-3d',
+    name: 'Vinyl 3D (four-legged)',
+    builtIn: true,
+    style: `Full-body characters as a smooth, glossy, stylized 3D render, like a vinyl collectible figure. ${RETAIN_FEATURES} Use isolated, clear lighting to make the 3D-rendered stickers pop against the background.`,
+    anatomy: "The character must strictly adhere to its four-legged anatomy, and must not display any additional arms or hands (e.g., no thumbs-up, crossed arms, or cheering with hands). All poses must be achieved using only its head, face, and body. Each of the stickers must display a unique, exaggerated, funny, and expressive facial expression (e.g., angry, laughing, crying, confused), avoiding generic emoji-style faces.",
+    captions: DEFAULT_CAPTIONS,
+    layout: DEFAULT_LAYOUT,
+  },
+  {
+    id: 'flat-vector',
+    name: 'Flat Vector',
+    builtIn: true,
+    style: `Clean flat vector illustration with bold uniform outlines, solid color fills and minimal simple shading, like a logo or app icon. ${RETAIN_FEATURES}`,
+    anatomy: "Keep each subject's natural anatomy and proportions from its reference. Poses and gestures may use hands where the subject has them. Each sticker shows a distinct, clearly readable expression or pose.",
+    captions: "Include ONE short word or phrase of at most two words next to each sticker, in a bold geometric sans-serif font. Do NOT add captions inside the artwork.",
+    layout: DEFAULT_LAYOUT,
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    builtIn: true,
+    style: `Soft hand-painted watercolor illustration with visible paper texture inside the artwork, gentle color bleeds and delicate ink linework. ${RETAIN_FEATURES}`,
+    anatomy: "Keep each subject's natural anatomy and proportions from its reference. Use calm, natural poses. Each sticker shows a different gentle mood (e.g., happy, sleepy, curious, loving).",
+    captions: "Include ONE short handwritten word in brush lettering next to each sticker. Do NOT use sentences.",
+    layout: DEFAULT_LAYOUT,
+  },
+  {
+    id: 'pixel-art',
+    name: 'Pixel Art',
+    builtIn: true,
+    style: `Retro 16-bit pixel art with a limited palette, crisp hard-edged pixels and no anti-aliasing or blur. ${RETAIN_FEATURES}`,
+    anatomy: "Keep each subject's silhouette and anatomy recognizable at low resolution. Each sticker uses a distinct pose and exaggerated expression, like video game sprite emotes.",
+    captions: "Include ONE single word next to each sticker in a blocky pixel font. Do NOT use sentences.",
+    layout: DEFAULT_LAYOUT,
+  },
+  {
+    id: 'kawaii-chibi',
+    name: 'Kawaii Chibi',
+    builtIn: true,
+    style: `Cute kawaii chibi style: oversized head, tiny body, big sparkling eyes, soft pastel colors and clean outlines. ${RETAIN_FEATURES}`,
+    anatomy: "Use chibi proportions (head about half the body height) while keeping the subject's species and anatomy from its reference. Each sticker shows a different over-the-top cute expression (e.g., blushing, crying happy tears, pouting, excited).",
+    captions: "Include ONE short cute word or onomatopoeia (e.g., 'YAY!', 'Hehe', 'Nyaa') next to each sticker in a rounded bubbly font. Do NOT use sentences.",
+    layout: DEFAULT_LAYOUT,
+  },
+];
+
+// Replace {{name}} placeholders; unknown names are left untouched
+export const interpolate = (text: string, variables: PromptVariables): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? String(variables[name as keyof PromptVariables]) : match
+  );
+
+// Total stickers requested across all references
+export const countStickers = (references: ReferenceImage[]): number =>
+  references.reduce((sum, ref) => sum + ref.stickerCount, 0);
+
+// Per-reference instructions, in the order the images are sent. Sticker numbers run across references in that order.
+export const describeReferences = (references: ReferenceImage[]): string => {
+  let firstSticker = 1;
+  const lines = references.map((ref, index) => {
+    const label = ref.name.trim() ? `Reference image ${index + 1} ("${ref.name.trim()}")` : `Reference image ${index + 1}`;
+    const lastSticker = firstSticker + ref.stickerCount - 1;
+    const range = ref.stickerCount > 1 ? `stickers ${firstSticker}-${lastSticker}` : `sticker ${firstSticker}`;
+    firstSticker = lastSticker + 1;
+    const parts = [`${label}: draw exactly ${ref.stickerCount} sticker${ref.stickerCount !== 1 ? 's' : ''} of this character (${range}).`];
+    const captions = ref.captions.slice(0, ref.stickerCount);
+    if (captions.length > 0) {
+      parts.push(`Use these captions/expressions, one per sticker: ${captions.map(c => `"${c}"`).join(', ')}.`);
+    }
+    if (ref.note.trim()) {
+      parts.push(`Note: ${ref.note.trim()}`);
+    }
+    return `  - ${parts.join(' ')}`;
+  });
+
+  return `Characters:
+${lines.join('\n')}
+  When captions are listed for a character, use exactly those words instead of inventing new ones.
+  Place the stickers in numbered order, reading left to right and top to bottom.`;
+};
+
+// Extra instructions for consistency mode
+export interface ConsistencyPrompt {
+  hasModelSheets: boolean; // Each reference image is followed by its model sheet
+  grid: ExpressionGrid | null;
+}
+
+export const describeConsistency = ({ hasModelSheets, grid }: ConsistencyPrompt): string => {
+  const lines: string[] = [];
+  if (hasModelSheets) {
+    lines.push("Each reference image is followed by a model sheet of the same character. The model sheet is the canonical design: match its colors, proportions, markings and accessories exactly in every sticker, and keep them identical across all stickers.");
+  }
+  if (grid) {
+    const rows = Math.ceil(grid.expressions.length / grid.columns);
+    lines.push(`Layout override: instead of the layout above, draw each character's stickers as its own evenly spaced grid of ${grid.columns} columns and ${rows} rows, in the listed order, row by row. Keep ample spacing so no stickers touch.`);
+  }
+  return lines.length > 0 ? `Character Consistency:\n${lines.map(line => `  - ${line}`).join('\n')}` : '';
+};
+
+// Prompt for the canonical model sheet of one character, drawn before any sticker sheets
+export const buildModelSheetPrompt = (ref: ReferenceImage, background: string): string => `
+  Create a character model sheet for ${ref.name.trim() ? `"${ref.name.trim()}", the character in the reference image` : 'the character in the reference image'}.
+  Show the full body four times side by side at the same scale: front view, three-quarter view, side view and back view, in a neutral standing pose with a neutral expression.
+  Below the views, add a row of flat color swatches of the character's main colors.
+  ${RETAIN_FEATURES}
+  Keep the proportions, markings and colors exactly the same in every view. No captions or labels, and no die-cut borders.
+  The background must be ${background}, uniform and flat.
+`;
+
+// How strictly each style strength level asks the model to follow the references. Level 3 adds
+// nothing, so the template's own wording applies.
+const STYLE_STRENGTH_RULES: Record<number, string> = {
+  1: "Treat the reference images as loose inspiration. Keep each character recognizable, but freely reinterpret proportions, colors and details in the chosen style. This overrides stricter wording above.",
+  2: "Keep each character recognizable with its main colors and accessories, but let the chosen style simplify or exaggerate details.",
+  3: '',
+  4: "Stay very close to the reference images: keep proportions, colors, markings and accessories as drawn. Apply the style to rendering and shading only.",
+  5: "Copy the characters from the reference images as exactly as possible: identical silhouette, proportions, colors, markings and accessories. Apply the style to rendering and shading only, never to the design.",
+};
+
+export const describeStyleStrength = (level: number): string => {
+  const rule = STYLE_STRENGTH_RULES[Math.round(level)];
+  return rule ? `Reference Fidelity: ${rule}` : '';
+};
+
+export interface PromptOptions {
+  consistency?: ConsistencyPrompt;
+  styleStrength?: number; // See describeStyleStrength
+}
+
+// Assemble the full generation prompt from a template. Only the template text is interpolated;
+// the reference, consistency and fidelity blocks hold user text and are passed on as typed.
+export const buildPrompt = (
+  template: PromptTemplate,
+  variables: PromptVariables,
+  references: ReferenceImage[] = [],
+  options: PromptOptions = {}
+): string => `${interpolate(`
+  A high-fidelity sticker sheet illustration, sized {{size}}.
+  The sheet features {{count}} individual die-cut sticker illustrations of different, recognizable characters (based on the provided reference images).
+
+  Sticker Content Requirements:
+  Character Style: ${template.style}
+  Anatomy, Posing & Expressions: ${template.anatomy}
+  Text: ${template.captions}
+  Die-Cut Style: Each individual sticker must have a clean, thick white die-cut outline/border.
+  Layout: ${template.layout}
+`, variables)}
+  ${references.length > 0 ? describeReferences(references) : ''}
+
+  ${options.consistency ? describeConsistency(options.consistency) : ''}
+
+  ${options.styleStrength !== undefined ? describeStyleStrength(options.styleStrength) : ''}
+${interpolate(`
+  Background:
+  The overall background for the sticker sheet must be {{background}}.
+  Ensure the background color is uniform and flat to facilitate easy removal if needed.
+`, variables)}`;
+
+// Prompt for editing an existing sheet with a follow-up instruction
+export const buildRefinePrompt = (instruction: string, background: string): string => `
+  Edit the provided sticker sheet image according to this instruction: ${instruction.trim()}
+
+  Change ONLY what the instruction asks for. Keep everything else exactly the same: the same stickers,
+  characters, positions, sizes, captions, art style and clean thick white die-cut borders.
+  The background must remain ${background}, uniform and flat.
+`;
+
+export const findTemplate = (templates: PromptTemplate[], id: string): PromptTemplate =>
+  templates.find(t => t.id === id) || BUILT_IN_TEMPLATES[0];
+
+const isPromptTemplate = (value: any): value is PromptTemplate =>
+  !!value &&
+  typeof value.name === 'string' &&
+  ['style', 'anatomy', 'captions', 'layout'].every(key => typeof value[key] === 'string');
+
+// User templates live in local storage; built-ins are always available
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed.filter(isPromptTemplate);
+    }
+    return [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Serialize templates for sharing as a JSON file
+export const exportTemplates = (templates: PromptTemplate[]): string =>
+  JSON.stringify({
+    version: 1,
+    templates: templates.map(({ builtIn, ...template }) => template),
+  }, null, 2);
+
+// Parse an exported file into new custom templates (fresh ids, never built-in)
+export const parseTemplateImport = (json: string): PromptTemplate[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Template file is not valid JSON.");
+  }
+
+  const list = Array.isArray(parsed) ? parsed : parsed?.templates;
+  if (!Array.isArray(list)) {
+    throw new Error("Template file does not contain a list of templates.");
+  }
+
+  const templates = list.filter(isPromptTemplate);
+  if (templates.length === 0) {
+    throw new Error("No valid templates found. Each needs a name, style, anatomy, captions and layout.");
+  }
+
+  return templates.map(t => ({
+    id: createId(),
+    name: t.name,
+    style: t.style,
+    anatomy: t.anatomy,
+    captions: t.captions,
+    layout: t.layout,
+  }));
+};
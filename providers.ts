@@ -0,0 +1,264 @@
+import { GoogleGenAI } from "@google/genai";
+import { AppConfig, ProviderId, Resolution } from './types';
+import { MODEL_ASPECT_RATIOS } from './layout';
+
+export type ImagePart =
+  | { inlineData: { mimeType: string; data: string } }
+  | { text: string };
+
+export interface ImageRequest {
+  model: string;
+  parts: ImagePart[];
+  aspectRatio: string; // One of the provider's aspectRatios
+  imageSize: Resolution;
+  label: string; // Used in error messages, e.g. "Sheet 2"
+  seed?: number; // Same seed and settings should give the same image; providers may only approximate it
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ImageResult {
+  src: string; // Data URL
+  usage?: TokenUsage; // When the provider reports it
+}
+
+export interface ProviderModel {
+  id: string;
+  label: string;
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  name: string;
+  models: ProviderModel[];
+  aspectRatios: string[];
+  imageSizes: Resolution[];
+  requiresApiKey: boolean;
+  generateImage: (request: ImageRequest, apiKey: string) => Promise<ImageResult>;
+  // Resolves when the key can use this provider's models; throws a user-facing error otherwise
+  validateKey: (apiKey: string, signal?: AbortSignal) => Promise<void>;
+}
+
+// Turn an API error from a key check into something a user can act on
+const describeKeyError = (err: any): Error => {
+  const status = Number(err?.status);
+  const message: string = err?.message || '';
+  if (/API_KEY_INVALID|API key not valid/i.test(message) || status === 400) {
+    return new Error("This API key is not valid. Check that it was copied in full.");
+  }
+  if (status === 401 || status === 403 || /PERMISSION_DENIED/i.test(message)) {
+    return new Error("This API key is not authorized for the Gemini API. Enable the Generative Language API for its project or loosen the key's restrictions.");
+  }
+  if (status === 404) {
+    return new Error("This API key's project cannot access the image model.");
+  }
+  if (/Failed to fetch|NetworkError/i.test(message)) {
+    return new Error("Could not reach the Gemini API to check the key. Check your connection and try again.");
+  }
+  return new Error(`Could not verify the API key: ${message || 'unknown error'}`);
+};
+
+const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: [
+    { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image' },
+  ],
+  aspectRatios: MODEL_ASPECT_RATIOS,
+  imageSizes: ['1K', '2K', '4K'],
+  requiresApiKey: true,
+  generateImage: async (request, apiKey) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: { parts: request.parts },
+      config: {
+        abortSignal: request.signal,
+        seed: request.seed,
+        temperature: request.temperature,
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+          imageSize: request.imageSize
+        }
+      }
+    });
+
+    const metadata = response.usageMetadata;
+    const usage = metadata && {
+      promptTokens: metadata.promptTokenCount || 0,
+      outputTokens: metadata.candidatesTokenCount || 0,
+      totalTokens: metadata.totalTokenCount || 0,
+    };
+
+    if (response.candidates && response.candidates[0].content.parts) {
+      for (const part of response.candidates[0].content.parts) {
+        if (part.inlineData) {
+          return { src: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`, usage };
+        }
+      }
+    }
+
+    throw new Error(`${request.label}: No image generated.`);
+  },
+  validateKey: async (apiKey, signal) => {
+    const ai = new GoogleGenAI({ apiKey });
+    try {
+      // A metadata lookup is free and fails the same way generation would for a bad key
+      await ai.models.get({ model: geminiProvider.models[0].id, config: { abortSignal: signal } });
+    } catch (err: any) {
+      if (err?.name === 'AbortError') throw err;
+      // Over quota still means the key itself is good
+      if (Number(err?.status) === 429) return;
+      throw describeKeyError(err);
+    }
+  },
+};
+
+// Offline provider that draws placeholder stickers, for development without an API key
+const MOCK_BACKGROUND = '#00FF00';
+const MOCK_LATENCY_MS = 600;
+const MOCK_COLORS = ['#F97316', '#3B82F6', '#EC4899', '#8B5CF6', '#EAB308', '#14B8A6', '#EF4444', '#6366F1'];
+
+const RESOLUTION_LONG_SIDE: Record<Resolution, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+// FNV-1a, so the same request always draws the same sheet
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Best guess at how many stickers the prompt asks for
+const guessStickerCount = (parts: ImagePart[]): number => {
+  const text = parts.map(part => ('text' in part ? part.text : '')).join('\n');
+  const match = text.match(/\b(\d{1,2})\s+(?:individual|die-cut|stickers?)\b/i);
+  const images = parts.filter(part => 'inlineData' in part).length;
+  const count = match ? parseInt(match[1], 10) : Math.max(1, images) * 3;
+  return Math.min(24, Math.max(1, count));
+};
+
+const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Local Mock (offline)',
+  models: [
+    { id: 'mock-sheet-v1', label: 'Synthetic sheet' },
+  ],
+  aspectRatios: MODEL_ASPECT_RATIOS,
+  imageSizes: ['1K', '2K'],
+  requiresApiKey: false,
+  generateImage: async (request) => {
+    await wait(MOCK_LATENCY_MS, request.signal);
+
+    const [rw, rh] = request.aspectRatio.split(':').map(Number);
+    const longSide = RESOLUTION_LONG_SIDE[request.imageSize];
+    const width = Math.round(rw >= rh ? longSide : longSide * rw / rh);
+    const height = Math.round(rh >= rw ? longSide : longSide * rh / rw);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error(`${request.label}: Canvas is not available.`);
+
+    const seedText = request.parts
+      .map(part => ('text' in part ? part.text : part.inlineData.data.slice(0, 256)))
+      .join('|');
+    const random = seededRandom(hashString(`${seedText}|${request.aspectRatio}|${request.imageSize}|${request.seed ?? ''}`));
+
+    ctx.fillStyle = MOCK_BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+
+    // Lay the stickers out on a grid with a white die-cut border and a caption each
+    const count = guessStickerCount(request.parts);
+    const cols = Math.ceil(Math.sqrt(count * width / height));
+    const rows = Math.ceil(count / cols);
+    const cellW = width / cols;
+    const cellH = height / rows;
+    const radius = Math.min(cellW, cellH) * 0.3;
+    const border = Math.max(4, radius * 0.12);
+
+    for (let i = 0; i < count; i++) {
+      const cx = (i % cols + 0.5) * cellW + (random() - 0.5) * cellW * 0.1;
+      const cy = (Math.floor(i / cols) + 0.45) * cellH + (random() - 0.5) * cellH * 0.1;
+      const color = MOCK_COLORS[Math.floor(random() * MOCK_COLORS.length)];
+
+      ctx.fillStyle = '#FFFFFF';
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius + border, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Eyes
+      ctx.fillStyle = '#1E293B';
+      ctx.beginPath();
+      ctx.arc(cx - radius * 0.35, cy - radius * 0.15, radius * 0.1, 0, Math.PI * 2);
+      ctx.arc(cx + radius * 0.35, cy - radius * 0.15, radius * 0.1, 0, Math.PI * 2);
+      ctx.fill();
+
+      const fontSize = Math.round(radius * 0.35);
+      ctx.font = `bold ${fontSize}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.lineWidth = border;
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.strokeText(`#${i + 1}`, cx, cy + radius * 0.5);
+      ctx.fillStyle = '#1E293B';
+      ctx.fillText(`#${i + 1}`, cx, cy + radius * 0.5);
+    }
+
+    return { src: canvas.toDataURL('image/png') };
+  },
+  validateKey: async () => {},
+};
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+export const getImageProvider = (id: ProviderId): ImageProvider =>
+  IMAGE_PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+// Keep the model and resolution valid after switching providers
+export const normalizeProviderConfig = (config: AppConfig): AppConfig => {
+  const provider = getImageProvider(config.providerId);
+  return {
+    ...config,
+    providerId: provider.id,
+    model: provider.models.some(m => m.id === config.model) ? config.model : provider.models[0].id,
+    resolution: provider.imageSizes.includes(config.resolution) ? config.resolution : provider.imageSizes[0],
+  };
+};
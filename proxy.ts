@@ -0,0 +1,70 @@
+import { ImageRequest } from './providers';
+import { createId } from './utils';
+import {
+  ProxyErrorResponse,
+  ProxyGenerateRequest,
+  ProxyGenerateResponse,
+  QuotaStatus,
+  SESSION_HEADER
+} from './server/protocol';
+
+// Base URL of the proxy server (see server/), set at build time. Empty means no proxy.
+export const PROXY_URL = (process.env.PROXY_URL || '').replace(/\/+$/, '');
+
+const SESSION_KEY = 'sticker_genius_session';
+
+// Stable per-browser id; clearing it only resets the session allowance, the per-IP one still applies
+const getSessionId = (): string => {
+  try {
+    let id = localStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = `${createId()}${createId()}`;
+      localStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    return 'anonymous';
+  }
+};
+
+// Errors keep the status for retry decisions; a spent daily quota gets no status so it is not retried
+const toProxyError = async (response: Response): Promise<Error> => {
+  let body: Partial<ProxyErrorResponse> = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error page from something in front of the proxy
+  }
+  const message = body.error || `Proxy request failed (${response.status}).`;
+  if (body.code === 'QUOTA_EXCEEDED') {
+    return Object.assign(new Error(message), { code: body.code, quota: body.quota });
+  }
+  return Object.assign(new Error(message), { status: response.status, code: body.code });
+};
+
+export const fetchProxyQuota = async (): Promise<QuotaStatus> => {
+  const response = await fetch(`${PROXY_URL}/api/quota`, { headers: { [SESSION_HEADER]: getSessionId() } });
+  if (!response.ok) throw await toProxyError(response);
+  return response.json();
+};
+
+// Same request the providers receive, sent to the proxy, which holds the key
+export const generateViaProxy = async (request: ImageRequest): Promise<ProxyGenerateResponse> => {
+  const body: ProxyGenerateRequest = {
+    model: request.model,
+    parts: request.parts,
+    aspectRatio: request.aspectRatio,
+    imageSize: request.imageSize,
+    label: request.label,
+    seed: request.seed,
+    temperature: request.temperature,
+  };
+  const response = await fetch(`${PROXY_URL}/api/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: getSessionId() },
+    body: JSON.stringify(body),
+    signal: request.signal,
+  });
+  if (!response.ok) throw await toProxyError(response);
+  return response.json();
+};
@@ -0,0 +1,216 @@
+import { QualityCheck, QualityIssue, QualityReport } from './types';
+import { SheetDimensions } from './layout';
+import { RgbaBuffer, chromaKey } from './matting';
+import { DEFAULT_SEGMENTATION_OPTIONS, RegionMap, findStickerRegions } from './segmentation';
+import { hexToRgb } from './utils';
+
+// Automated checks on a generated sheet: sticker count, spacing, die-cut borders and background
+
+export const QUALITY_PASS_SCORE = 85;
+export const MAX_QUALITY_RETRIES = 5;
+export const MIN_GAP_INCHES = 0.0625; // Narrowest gap a cutter reliably separates
+
+export type SheetAnalysis = Omit<QualityReport, 'attempts'>;
+
+export const SHEET_ANALYSIS_EDGE = 1024; // Checks run on a downscaled copy
+const WHITE_MIN = 215; // Every channel above this counts as white
+const BORDER_RING = [2, 3]; // Depth in pixels of the ring sampled for the border; depth 1 is the soft edge
+const BORDER_COVERAGE = 0.6; // Share of the ring that must be white
+const BACKGROUND_TOLERANCE = 60; // Below the keying tolerance, so uneven shading shows up before it breaks removal
+const BACKGROUND_ALLOWANCE = 0.01; // Share of off-key background pixels that is still fine
+const BACKGROUND_WORST = 0.1; // Share at which the background check scores 0
+const REGION_CLEARANCE = 4; // Pixels around each sticker left out of the background check (soft edges)
+
+const WEIGHTS: Record<QualityCheck, number> = { count: 40, spacing: 20, border: 20, background: 20 };
+
+interface CheckResult {
+  score: number; // 0-1
+  issue?: string;
+}
+
+// Region index per pixel, -1 outside every sticker (background and dropped noise)
+const regionOwners = (map: RegionMap): Int32Array => {
+  const regionByLabel = new Map<number, number>();
+  map.regions.forEach((region, index) => region.labels.forEach(label => regionByLabel.set(label, index)));
+  const owners = new Int32Array(map.labels.length).fill(-1);
+  for (let i = 0; i < owners.length; i++) {
+    if (map.labels[i] !== 0) owners[i] = regionByLabel.get(map.labels[i]) ?? -1;
+  }
+  return owners;
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? 's' : ''}`;
+
+const checkCount = (found: number, expected: number): CheckResult => {
+  if (found === expected) return { score: 1 };
+  return {
+    score: Math.max(0, 1 - Math.abs(found - expected) / expected),
+    issue: found < expected
+      ? `Found ${plural(found, 'sticker')}, expected ${expected}. Some are missing or touch each other.`
+      : `Found ${plural(found, 'sticker')}, expected ${expected}. There are extra stickers or stray pieces.`,
+  };
+};
+
+// Stickers closer to a neighbour than the minimum gap. Only edge pixels are compared, each
+// against the other stickers' pixels within the gap radius.
+const checkSpacing = (map: RegionMap, owners: Int32Array, minGapPx: number, pxPerInch: number): CheckResult => {
+  const { width, height } = map;
+  const radius = Math.ceil(minGapPx) + 1;
+  const tooClose = new Set<number>();
+  let smallestGap = Infinity;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const own = owners[idx];
+      if (own < 0) continue;
+      const isEdge = (x > 0 && owners[idx - 1] !== own) || (x < width - 1 && owners[idx + 1] !== own) ||
+        (y > 0 && owners[idx - width] !== own) || (y < height - 1 && owners[idx + width] !== own);
+      if (!isEdge) continue;
+
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const other = owners[ny * width + nx];
+          if (other < 0 || other === own) continue;
+          // Neighbouring pixels have no gap between them
+          const gap = Math.hypot(dx, dy) - 1;
+          if (gap >= minGapPx) continue;
+          tooClose.add(own);
+          tooClose.add(other);
+          smallestGap = Math.min(smallestGap, gap);
+        }
+      }
+    }
+  }
+
+  if (tooClose.size === 0) return { score: 1 };
+  return {
+    score: 1 - tooClose.size / map.regions.length,
+    issue: `${plural(tooClose.size, 'sticker')} closer than ${MIN_GAP_INCHES}" to a neighbour ` +
+      `(closest gap about ${(Math.max(0, smallestGap) / pxPerInch).toFixed(3)}"). They may be cut as one.`,
+  };
+};
+
+// Each sticker's artwork should be ringed in white just inside its edge. Captions are not checked.
+const checkBorder = (pixels: RgbaBuffer, map: RegionMap, owners: Int32Array): CheckResult => {
+  const { width, height } = map;
+  const maxDepth = BORDER_RING[1];
+  const depth = new Uint8Array(width * height);
+  let frontier: number[] = [];
+
+  // Depth from the background, breadth first from the sticker edges
+  for (let i = 0; i < depth.length; i++) {
+    if (owners[i] < 0) continue;
+    const x = i % width;
+    const touchesBackground = x === 0 || x === width - 1 || i < width || i >= depth.length - width ||
+      owners[i - 1] < 0 || owners[i + 1] < 0 || owners[i - width] < 0 || owners[i + width] < 0;
+    if (touchesBackground) {
+      depth[i] = 1;
+      frontier.push(i);
+    }
+  }
+  for (let d = 2; d <= maxDepth; d++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= depth.length || depth[n] !== 0 || owners[n] < 0) continue;
+        depth[n] = d;
+        next.push(n);
+      }
+    }
+    frontier = next;
+  }
+
+  const ringTotal = new Array(map.regions.length).fill(0);
+  const ringWhite = new Array(map.regions.length).fill(0);
+  const { data } = pixels;
+  for (let i = 0; i < depth.length; i++) {
+    if (depth[i] < BORDER_RING[0]) continue;
+    const region = owners[i];
+    if (map.labels[i] !== map.regions[region].labels[0]) continue;
+    ringTotal[region]++;
+    if (Math.min(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) > WHITE_MIN) ringWhite[region]++;
+  }
+
+  const missing = map.regions.filter((_, index) => ringTotal[index] > 0 && ringWhite[index] / ringTotal[index] < BORDER_COVERAGE).length;
+  if (missing === 0) return { score: 1 };
+  return {
+    score: 1 - missing / map.regions.length,
+    issue: `${missing} of ${plural(map.regions.length, 'sticker')} ${missing === 1 ? 'has' : 'have'} no white die-cut border.`,
+  };
+};
+
+// Background pixels far from the key color are what background removal leaves behind
+const checkBackground = (pixels: RgbaBuffer, map: RegionMap, keyColor: string): CheckResult => {
+  const { width, height } = map;
+  const [kr, kg, kb] = hexToRgb(keyColor);
+  const covered = new Uint8Array(width * height);
+  for (const { bounds } of map.regions) {
+    const x0 = Math.max(0, bounds.x - REGION_CLEARANCE);
+    const x1 = Math.min(width, bounds.x + bounds.width + REGION_CLEARANCE);
+    const y0 = Math.max(0, bounds.y - REGION_CLEARANCE);
+    const y1 = Math.min(height, bounds.y + bounds.height + REGION_CLEARANCE);
+    for (let y = y0; y < y1; y++) covered.fill(1, y * width + x0, y * width + x1);
+  }
+
+  const { data } = pixels;
+  let total = 0;
+  let offKey = 0;
+  for (let i = 0; i < covered.length; i++) {
+    if (covered[i]) continue;
+    total++;
+    const s = i * 4;
+    if (Math.hypot(data[s] - kr, data[s + 1] - kg, data[s + 2] - kb) > BACKGROUND_TOLERANCE) offKey++;
+  }
+  if (total === 0) return { score: 1 };
+
+  const share = offKey / total;
+  if (share <= BACKGROUND_ALLOWANCE) return { score: 1 };
+  return {
+    score: Math.max(0, 1 - (share - BACKGROUND_ALLOWANCE) / (BACKGROUND_WORST - BACKGROUND_ALLOWANCE)),
+    issue: `Background is uneven: ${Math.round(share * 100)}% of it is off the key color, so background removal may leave patches.`,
+  };
+};
+
+// Score a sheet image that still has its key color background (the raw model output).
+// Checks that cannot apply (a single sticker, a near-white key) are left out of the score.
+// Keys out the background of the pixels in place. Runs in the image worker as the 'analyzeSheet'
+// pipeline step; see analyzeSheet in processing.ts.
+export const analyzeSheetPixels = (
+  pixels: RgbaBuffer,
+  keyColor: string,
+  sheet: SheetDimensions,
+  expectedCount: number
+): SheetAnalysis => {
+  // Keying only changes alpha, so the colors stay available for the border and background checks
+  chromaKey(pixels, keyColor, DEFAULT_SEGMENTATION_OPTIONS.chromaTolerance);
+  const map = findStickerRegions(pixels);
+  const owners = regionOwners(map);
+  // The model output is fitted into the sheet, so the tighter side sets the scale
+  const pxPerInch = Math.min(map.width / sheet.width, map.height / sheet.height);
+  const keyIsWhite = Math.min(...hexToRgb(keyColor)) > WHITE_MIN;
+
+  const results: Partial<Record<QualityCheck, CheckResult>> = {
+    background: checkBackground(pixels, map, keyColor),
+  };
+  if (expectedCount > 0) results.count = checkCount(map.regions.length, expectedCount);
+  if (map.regions.length > 1) results.spacing = checkSpacing(map, owners, MIN_GAP_INCHES * pxPerInch, pxPerInch);
+  if (map.regions.length > 0 && !keyIsWhite) results.border = checkBorder(pixels, map, owners);
+
+  const checks = Object.keys(results) as QualityCheck[];
+  const weight = checks.reduce((sum, check) => sum + WEIGHTS[check], 0);
+  const score = Math.round(checks.reduce((sum, check) => sum + WEIGHTS[check] * results[check]!.score, 0) / weight * 100);
+  const issues: QualityIssue[] = checks
+    .filter(check => results[check]!.issue)
+    .map(check => ({ check, message: results[check]!.issue! }));
+
+  // A wrong sticker count or stickers too close to cut fail the sheet whatever the score
+  const blocking = issues.some(issue => issue.check === 'count' || issue.check === 'spacing');
+  return { score, passed: score >= QUALITY_PASS_SCORE && !blocking, issues };
+};
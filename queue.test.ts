@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobUpdate, QueueOptions, backoffDelay, createJobQueue, isAbortError, isRetryableError } from './queue';
+
+const FAST: QueueOptions = { concurrency: 2, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 4 };
+
+const statusError = (message: string, status?: number) => Object.assign(new Error(message), { status });
+
+// Run the jobs to completion and return every update in order
+const runJobs = async (
+  jobs: Array<(signal: AbortSignal, attempt: number) => Promise<string>>,
+  options: QueueOptions = FAST
+): Promise<JobUpdate<string>[]> => {
+  const updates: JobUpdate<string>[] = [];
+  const queue = createJobQueue<string>(update => updates.push(update), options);
+  jobs.forEach((run, index) => queue.add({ id: `job${index + 1}`, run }));
+  await queue.onIdle();
+  return updates;
+};
+
+const finalStatus = (updates: JobUpdate<string>[], id: string) => updates.filter(u => u.id === id).pop()?.status;
+
+test('isAbortError only matches errors named AbortError', () => {
+  assert.equal(isAbortError(new DOMException('Aborted', 'AbortError')), true);
+  assert.equal(isAbortError(new Error('The connection was aborted')), false);
+  assert.equal(isAbortError(undefined), false);
+});
+
+test('isRetryableError retries rate limits, server errors and dropped connections', () => {
+  assert.equal(isRetryableError(statusError('Too many requests', 429)), true);
+  assert.equal(isRetryableError(statusError('Bad gateway', 502)), true);
+  assert.equal(isRetryableError(new Error('got status 503 from upstream')), true);
+  assert.equal(isRetryableError(new Error('RESOURCE_EXHAUSTED: quota')), true);
+  assert.equal(isRetryableError(new TypeError('Failed to fetch')), true);
+  assert.equal(isRetryableError(new Error('connection aborted')), true);
+});
+
+test('isRetryableError gives up on client errors and aborts', () => {
+  assert.equal(isRetryableError(statusError('Invalid API key', 401)), false);
+  assert.equal(isRetryableError(statusError('Bad request', 400)), false);
+  assert.equal(isRetryableError(new Error('Safety filter blocked the image')), false);
+  assert.equal(isRetryableError(new DOMException('Aborted', 'AbortError')), false);
+});
+
+test('backoffDelay picks a delay in the upper half of the doubling window, capped', (t) => {
+  const options: QueueOptions = { concurrency: 1, maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+  t.mock.method(Math, 'random', () => 0);
+  assert.deepEqual([1, 2, 3, 4].map(retry => backoffDelay(retry, options)), [500, 1000, 2000, 2500]);
+  t.mock.method(Math, 'random', () => 0.999999);
+  assert.deepEqual([1, 2, 3, 4].map(retry => backoffDelay(retry, options)), [1000, 2000, 4000, 5000]);
+});
+
+test('a job that fails with a retryable error is retried until it succeeds', async () => {
+  const updates = await runJobs([
+    async (_signal, attempt) => {
+      if (attempt < 3) throw statusError('Service unavailable', 503);
+      return 'sheet';
+    },
+  ]);
+  assert.deepEqual(updates.map(u => u.status), ['queued', 'running', 'retrying', 'running', 'retrying', 'running', 'done']);
+  assert.equal(updates.at(-1)?.result, 'sheet');
+});
+
+test('a job stops retrying after maxRetries', async () => {
+  const updates = await runJobs([async () => { throw statusError('Too many requests', 429); }]);
+  assert.equal(updates.at(-1)?.status, 'failed');
+  assert.equal(updates.at(-1)?.attempt, FAST.maxRetries + 1);
+});
+
+test('an upstream "aborted" message is retried, not treated as a cancel', async () => {
+  const updates = await runJobs([
+    async (_signal, attempt) => {
+      if (attempt === 1) throw new Error('connection aborted');
+      return 'sheet';
+    },
+  ]);
+  assert.equal(finalStatus(updates, 'job1'), 'done');
+  assert.ok(!updates.some(u => u.status === 'cancelled'));
+});
+
+test('a non-retryable error fails the job at once', async () => {
+  const updates = await runJobs([async () => { throw statusError('Invalid API key', 401); }]);
+  assert.deepEqual(updates.map(u => u.status), ['queued', 'running', 'failed']);
+  assert.equal(updates.at(-1)?.error, 'Invalid API key');
+});
+
+test('cancel stops a running job and drops a queued one', async () => {
+  const updates: JobUpdate<string>[] = [];
+  const queue = createJobQueue<string>(update => updates.push(update), { ...FAST, concurrency: 1 });
+  const waitForAbort = (signal: AbortSignal) =>
+    new Promise<string>((_, reject) => signal.addEventListener('abort', () => reject(new Error('stopped'))));
+  queue.add({ id: 'running', run: waitForAbort });
+  queue.add({ id: 'queued', run: async () => 'never' });
+  queue.cancel('queued');
+  queue.cancel('running');
+  await queue.onIdle();
+  assert.equal(finalStatus(updates, 'running'), 'cancelled');
+  assert.deepEqual(updates.filter(u => u.id === 'queued').map(u => u.status), ['queued', 'cancelled']);
+});
+
+test('no more jobs run at once than the concurrency allows', async () => {
+  let active = 0;
+  let peak = 0;
+  const job = async () => {
+    active++;
+    peak = Math.max(peak, active);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    active--;
+    return 'sheet';
+  };
+  const updates = await runJobs([job, job, job, job, job]);
+  assert.equal(peak, FAST.concurrency);
+  assert.equal(updates.filter(u => u.status === 'done').length, 5);
+});
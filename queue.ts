@@ -0,0 +1,169 @@
+import { JobStatus } from './types';
+
+export interface QueueOptions {
+  concurrency: number; // Max jobs running at once
+  maxRetries: number; // Retries after the first attempt, for retryable errors only
+  baseDelayMs: number; // First backoff delay
+  maxDelayMs: number; // Backoff cap
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: 2,
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+export interface QueueJob<T> {
+  id: string;
+  run: (signal: AbortSignal, attempt: number) => Promise<T>;
+}
+
+export interface JobUpdate<T> {
+  id: string;
+  status: JobStatus;
+  attempt: number; // 1-based attempt number
+  retryInMs?: number; // Set while waiting before a retry
+  error?: string;
+  result?: T;
+}
+
+// Only a real abort counts; upstream messages like "connection aborted" are ordinary failures
+export const isAbortError = (err: any): boolean => err?.name === 'AbortError';
+
+// Rate limits, overloaded or unavailable backends and network drops are worth retrying
+export const isRetryableError = (err: any): boolean => {
+  if (isAbortError(err)) return false;
+  const status = Number(err?.status ?? err?.code);
+  if ([408, 429, 500, 502, 503, 504].includes(status)) return true;
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|rate limit|Failed to fetch|NetworkError|connection (reset|aborted|closed)/i
+    .test(err?.message || '');
+};
+
+// Exponential backoff with jitter: a random delay in the upper half of the exponential window
+export const backoffDelay = (retry: number, options: QueueOptions): number => {
+  const window = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, retry - 1));
+  return Math.round(window / 2 + Math.random() * (window / 2));
+};
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface JobQueue<T> {
+  add: (job: QueueJob<T>) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  onIdle: () => Promise<void>; // Resolves once every added job has finished, failed or been cancelled
+}
+
+// Run jobs with a concurrency cap, retries and per-job cancellation, reporting every state change
+export const createJobQueue = <T>(
+  onUpdate: (update: JobUpdate<T>) => void,
+  options: QueueOptions = DEFAULT_QUEUE_OPTIONS
+): JobQueue<T> => {
+  const pending: QueueJob<T>[] = [];
+  const controllers = new Map<string, AbortController>();
+  let running = 0;
+  let idleWaiters: Array<() => void> = [];
+
+  const notifyIfIdle = () => {
+    if (running === 0 && pending.length === 0) {
+      idleWaiters.forEach(resolve => resolve());
+      idleWaiters = [];
+    }
+  };
+
+  const execute = async (job: QueueJob<T>) => {
+    const controller = controllers.get(job.id)!;
+    const { signal } = controller;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        onUpdate({ id: job.id, status: 'running', attempt });
+        const result = await job.run(signal, attempt);
+        if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+        onUpdate({ id: job.id, status: 'done', attempt, result });
+        return;
+      } catch (err: any) {
+        // Cancelled only when this job's own signal fired
+        if (signal.aborted) {
+          onUpdate({ id: job.id, status: 'cancelled', attempt });
+          return;
+        }
+        if (attempt > options.maxRetries || !isRetryableError(err)) {
+          onUpdate({ id: job.id, status: 'failed', attempt, error: err?.message || 'Unknown error' });
+          return;
+        }
+
+        const retryInMs = backoffDelay(attempt, options);
+        onUpdate({ id: job.id, status: 'retrying', attempt, retryInMs, error: err?.message });
+        try {
+          await sleep(retryInMs, signal);
+        } catch {
+          onUpdate({ id: job.id, status: 'cancelled', attempt });
+          return;
+        }
+      }
+    }
+  };
+
+  const pump = () => {
+    while (running < options.concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      running++;
+      execute(job).finally(() => {
+        running--;
+        controllers.delete(job.id);
+        pump();
+        notifyIfIdle();
+      });
+    }
+  };
+
+  return {
+    add: (job) => {
+      controllers.set(job.id, new AbortController());
+      pending.push(job);
+      onUpdate({ id: job.id, status: 'queued', attempt: 0 });
+      pump();
+    },
+    cancel: (id) => {
+      const index = pending.findIndex(job => job.id === id);
+      if (index >= 0) {
+        pending.splice(index, 1);
+        controllers.delete(id);
+        onUpdate({ id, status: 'cancelled', attempt: 0 });
+        notifyIfIdle();
+        return;
+      }
+      controllers.get(id)?.abort();
+    },
+    cancelAll: () => {
+      pending.splice(0).forEach(job => {
+        controllers.delete(job.id);
+        onUpdate({ id: job.id, status: 'cancelled', attempt: 0 });
+      });
+      controllers.forEach(controller => controller.abort());
+      notifyIfIdle();
+    },
+    onIdle: () =>
+      new Promise(resolve => {
+        if (running === 0 && pending.length === 0) resolve();
+        else idleWaiters.push(resolve);
+      }),
+  };
+};
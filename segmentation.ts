@@ -0,0 +1,252 @@
+import { StickerBounds } from './types';
+import { RgbaBuffer } from './matting';
+
+export interface SegmentationOptions {
+  alphaThreshold: number; // Pixels with alpha above this belong to a sticker
+  chromaTolerance: number; // Tolerance used when keying out the sheet background
+  noiseRatio: number; // Regions smaller than this fraction of the sheet are dropped
+  stickerRatio: number; // Regions at least this fraction of the largest one count as stickers
+  captionDistanceRatio: number; // Max gap to a sticker (fraction of the shorter sheet side) for a caption to attach
+  paddingRatio: number; // Padding around each crop (fraction of the shorter sheet side)
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  alphaThreshold: 32,
+  chromaTolerance: 100,
+  noiseRatio: 0.00005,
+  stickerRatio: 0.15,
+  captionDistanceRatio: 0.06,
+  paddingRatio: 0.015,
+};
+
+export interface Component {
+  label: number;
+  start: number; // First pixel of the component in raster order
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface StickerRegion {
+  labels: number[]; // Connected components making up the sticker (artwork + caption)
+  bounds: StickerBounds; // Tight bounding box, without padding
+}
+
+export interface StickerCrop {
+  pixels: RgbaBuffer;
+  bounds: StickerBounds; // Crop position on the sheet, padding included
+}
+
+export interface RegionMap {
+  width: number;
+  height: number;
+  labels: Int32Array; // Component label per pixel, 0 = background
+  regions: StickerRegion[];
+}
+
+// Binary mask of pixels whose alpha is above the threshold
+export const alphaMask = (imageData: RgbaBuffer, alphaThreshold: number): Uint8Array => {
+  const { data, width, height } = imageData;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = data[i * 4 + 3] > alphaThreshold ? 1 : 0;
+  }
+  return mask;
+};
+
+// Label 8-connected regions of a binary mask
+export const labelComponents = (
+  mask: Uint8Array,
+  width: number,
+  height: number
+): { labels: Int32Array; components: Component[] } => {
+  const total = width * height;
+  const labels = new Int32Array(total);
+  const stack = new Int32Array(total);
+  const components: Component[] = [];
+  let nextLabel = 1;
+
+  for (let start = 0; start < total; start++) {
+    if (labels[start] !== 0 || mask[start] === 0) continue;
+
+    const label = nextLabel++;
+    const component: Component = {
+      label,
+      start,
+      area: 0,
+      minX: width,
+      minY: height,
+      maxX: 0,
+      maxY: 0,
+    };
+
+    // Pixels are labelled when pushed, so the stack never exceeds the pixel count
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+
+    while (top > 0) {
+      const idx = stack[--top];
+      const x = idx % width;
+      const y = (idx - x) / width;
+
+      component.area++;
+      if (x < component.minX) component.minX = x;
+      if (x > component.maxX) component.maxX = x;
+      if (y < component.minY) component.minY = y;
+      if (y > component.maxY) component.maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+          const nIdx = ny * width + nx;
+          if (labels[nIdx] === 0 && mask[nIdx] !== 0) {
+            labels[nIdx] = label;
+            stack[top++] = nIdx;
+          }
+        }
+      }
+    }
+
+    components.push(component);
+  }
+
+  return { labels, components };
+};
+
+const toBounds = (c: Component): StickerBounds => ({
+  x: c.minX,
+  y: c.minY,
+  width: c.maxX - c.minX + 1,
+  height: c.maxY - c.minY + 1,
+});
+
+const unionBounds = (a: StickerBounds, b: StickerBounds): StickerBounds => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+// Gap between two rectangles, 0 if they touch or overlap
+export const boundsDistance = (a: StickerBounds, b: StickerBounds): number => {
+  const dx = Math.max(0, a.x - (b.x + b.width), b.x - (a.x + a.width));
+  const dy = Math.max(0, a.y - (b.y + b.height), b.y - (a.y + a.height));
+  return Math.hypot(dx, dy);
+};
+
+// Order regions in reading order: rows top to bottom, then left to right
+const sortReadingOrder = (regions: StickerRegion[]): StickerRegion[] => {
+  const byTop = [...regions].sort((a, b) => a.bounds.y - b.bounds.y);
+  const rows: StickerRegion[][] = [];
+
+  for (const region of byTop) {
+    const centerY = region.bounds.y + region.bounds.height / 2;
+    const row = rows.find(r => {
+      const first = r[0].bounds;
+      return centerY >= first.y && centerY <= first.y + first.height;
+    });
+    if (row) row.push(region);
+    else rows.push([region]);
+  }
+
+  return rows.flatMap(row => row.sort((a, b) => a.bounds.x - b.bounds.x));
+};
+
+// Find sticker regions (artwork plus nearby caption) on an image that already has transparency
+export const findStickerRegions = (
+  imageData: RgbaBuffer,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): RegionMap => {
+  const { width, height } = imageData;
+  const mask = alphaMask(imageData, options.alphaThreshold);
+  const { labels, components } = labelComponents(mask, width, height);
+
+  const noiseArea = Math.max(16, width * height * options.noiseRatio);
+  const kept = components.filter(c => c.area >= noiseArea);
+  const largest = kept.reduce((max, c) => Math.max(max, c.area), 0);
+
+  const anchors = kept.filter(c => c.area >= largest * options.stickerRatio);
+  const extras = kept.filter(c => c.area < largest * options.stickerRatio);
+
+  const regions: StickerRegion[] = anchors.map(c => ({ labels: [c.label], bounds: toBounds(c) }));
+  const anchorBounds = regions.map(r => r.bounds);
+  const maxCaptionGap = Math.min(width, height) * options.captionDistanceRatio;
+
+  // Attach small pieces (caption letters, accessories) to the closest sticker.
+  // Distances are measured against the original artwork so captions never chain.
+  for (const extra of extras) {
+    const bounds = toBounds(extra);
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    anchorBounds.forEach((anchor, index) => {
+      const distance = boundsDistance(bounds, anchor);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex >= 0 && bestDistance <= maxCaptionGap) {
+      regions[bestIndex].labels.push(extra.label);
+      regions[bestIndex].bounds = unionBounds(regions[bestIndex].bounds, bounds);
+    }
+  }
+
+  return { width, height, labels, regions: sortReadingOrder(regions) };
+};
+
+// Copy one region into its own padded, transparent image
+export const cropRegion = (
+  imageData: RgbaBuffer,
+  map: RegionMap,
+  region: StickerRegion,
+  padding: number
+): StickerCrop => {
+  const x0 = Math.max(0, region.bounds.x - padding);
+  const y0 = Math.max(0, region.bounds.y - padding);
+  const x1 = Math.min(map.width, region.bounds.x + region.bounds.width + padding);
+  const y1 = Math.min(map.height, region.bounds.y + region.bounds.height + padding);
+  const cropWidth = x1 - x0;
+  const cropHeight = y1 - y0;
+
+  const own = new Set(region.labels);
+  const out: RgbaBuffer = { data: new Uint8ClampedArray(cropWidth * cropHeight * 4), width: cropWidth, height: cropHeight };
+
+  for (let y = 0; y < cropHeight; y++) {
+    for (let x = 0; x < cropWidth; x++) {
+      const srcIdx = (y0 + y) * map.width + (x0 + x);
+      const label = map.labels[srcIdx];
+      // Keep unlabelled soft edges, but never pixels that belong to a neighbouring sticker
+      if (label !== 0 && !own.has(label)) continue;
+      const s = srcIdx * 4;
+      const d = (y * cropWidth + x) * 4;
+      out.data[d] = imageData.data[s];
+      out.data[d + 1] = imageData.data[s + 1];
+      out.data[d + 2] = imageData.data[s + 2];
+      out.data[d + 3] = imageData.data[s + 3];
+    }
+  }
+
+  return { pixels: out, bounds: { x: x0, y: y0, width: cropWidth, height: cropHeight } };
+};
+
+// Crop every sticker of a keyed sheet into its own padded, transparent image, in reading order.
+// Runs in the image worker as the 'segment' pipeline step; see segmentSheet in processing.ts.
+export const segmentPixels = (
+  pixels: RgbaBuffer,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS
+): StickerCrop[] => {
+  const map = findStickerRegions(pixels, options);
+  const padding = Math.round(Math.min(map.width, map.height) * options.paddingRatio);
+  return map.regions.map(region => cropRegion(pixels, map, region, padding));
+};
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { ProxyServerOptions, createProxyServer } from './index.js';
+import { Upstream, UpstreamError, createMockUpstream } from './upstream.js';
+import { SESSION_HEADER } from './protocol.js';
+
+const MODEL = 'test-model';
+
+const REQUEST = {
+  model: MODEL,
+  parts: [{ text: 'A sticker sheet' }],
+  aspectRatio: '2:3',
+  imageSize: '1K',
+  label: 'Sheet 1',
+};
+
+// Start a proxy on a free port and return its base URL and a way to stop it
+const startProxy = async (options: Partial<ProxyServerOptions>) => {
+  const server = createProxyServer({
+    upstream: createMockUpstream(1),
+    dailyLimitPerIp: 10,
+    dailyLimitPerSession: 10,
+    requestsPerMinute: 100,
+    allowedOrigin: '*',
+    allowedModels: [MODEL],
+    trustProxy: false,
+    ...options,
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+const generate = (url: string, session = 'session-0001') =>
+  fetch(`${url}/api/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: session },
+    body: JSON.stringify(REQUEST),
+  });
+
+test('proxy answers with the mock image until the daily limit, then QUOTA_EXCEEDED', async () => {
+  const proxy = await startProxy({ dailyLimitPerIp: 2 });
+  try {
+    for (const remaining of [1, 0]) {
+      const res = await generate(proxy.url);
+      assert.equal(res.status, 200);
+      const body = await res.json();
+      assert.match(body.image, /^data:image\/png;base64,/);
+      assert.equal(body.quota.remaining, remaining);
+    }
+
+    const res = await generate(proxy.url);
+    assert.equal(res.status, 429);
+    const body = await res.json();
+    assert.equal(body.code, 'QUOTA_EXCEEDED');
+    assert.equal(body.quota.remaining, 0);
+  } finally {
+    await proxy.close();
+  }
+});
+
+test('proxy refunds the quota when the upstream call fails', async (t) => {
+  t.mock.method(console, 'error', () => {}); // The proxy logs 5xx responses
+  let calls = 0;
+  const mock = createMockUpstream(1);
+  const flaky: Upstream = (request, signal) => {
+    calls++;
+    if (calls === 1) return Promise.reject(new UpstreamError('Model overloaded', 503));
+    return mock(request, signal);
+  };
+  const proxy = await startProxy({ upstream: flaky, dailyLimitPerIp: 1 });
+  try {
+    const failed = await generate(proxy.url);
+    // The upstream status passes through so the client can retry
+    assert.equal(failed.status, 503);
+    assert.equal((await failed.json()).code, 'UPSTREAM_ERROR');
+
+    const quota = await (await fetch(`${proxy.url}/api/quota`, { headers: { [SESSION_HEADER]: 'session-0001' } })).json();
+    assert.equal(quota.used, 0);
+
+    // The refunded use is still there for the retry
+    const retried = await generate(proxy.url);
+    assert.equal(retried.status, 200);
+  } finally {
+    await proxy.close();
+  }
+});
+
+test('proxy rate limits per IP with a Retry-After header', async () => {
+  const proxy = await startProxy({ requestsPerMinute: 1 });
+  try {
+    assert.equal((await generate(proxy.url)).status, 200);
+    const res = await generate(proxy.url, 'session-0002');
+    assert.equal(res.status, 429);
+    const body = await res.json();
+    assert.equal(body.code, 'RATE_LIMITED');
+    assert.equal(res.headers.get('retry-after'), String(body.retryAfterSeconds));
+  } finally {
+    await proxy.close();
+  }
+});
@@ -0,0 +1,224 @@
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { createDailyQuota, createRateLimiter } from './limits.js';
+import { Upstream, createGeminiUpstream, createMockUpstream } from './upstream.js';
+import {
+  ProxyErrorCode,
+  ProxyErrorResponse,
+  ProxyGenerateRequest,
+  ProxyGenerateResponse,
+  QuotaStatus,
+  SESSION_HEADER
+} from './protocol.js';
+
+export interface ProxyServerOptions {
+  upstream: Upstream;
+  dailyLimitPerIp: number;
+  dailyLimitPerSession: number;
+  requestsPerMinute: number; // Per IP, counting rejected attempts too
+  allowedOrigin: string; // CORS origin, '*' for any
+  allowedModels: string[];
+  trustProxy: boolean; // Take the client IP from X-Forwarded-For
+}
+
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // Reference images travel inline as base64
+const IMAGE_SIZES = ['1K', '2K', '4K'];
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+class HttpError extends Error {
+  status: number;
+  code: ProxyErrorCode;
+
+  constructor(status: number, code: ProxyErrorCode, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const readJson = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'BAD_REQUEST', 'Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'BAD_REQUEST', 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Only forward requests that look like the client's own sheet requests
+const parseGenerateRequest = (body: any, allowedModels: string[]): ProxyGenerateRequest => {
+  const fail = (message: string) => new HttpError(400, 'BAD_REQUEST', message);
+  if (!body || typeof body !== 'object') throw fail('Expected a JSON object.');
+  if (!allowedModels.includes(body.model)) throw fail(`Model must be one of: ${allowedModels.join(', ')}.`);
+  if (typeof body.aspectRatio !== 'string' || !/^\d+:\d+$/.test(body.aspectRatio)) throw fail('Invalid aspectRatio.');
+  if (!IMAGE_SIZES.includes(body.imageSize)) throw fail(`imageSize must be one of: ${IMAGE_SIZES.join(', ')}.`);
+  if (!Array.isArray(body.parts) || body.parts.length === 0) throw fail('parts must be a non-empty array.');
+  if (body.seed !== undefined && !Number.isInteger(body.seed)) throw fail('seed must be an integer.');
+  if (body.temperature !== undefined && !(typeof body.temperature === 'number' && body.temperature >= 0 && body.temperature <= 2)) {
+    throw fail('temperature must be a number from 0 to 2.');
+  }
+
+  const parts = body.parts.map((part: any, i: number) => {
+    if (typeof part?.text === 'string') return { text: part.text };
+    const inline = part?.inlineData;
+    if (inline && typeof inline.data === 'string' && /^image\//.test(inline.mimeType)) {
+      return { inlineData: { mimeType: inline.mimeType, data: inline.data } };
+    }
+    throw fail(`parts[${i}] must be text or an inline image.`);
+  });
+
+  return {
+    model: body.model,
+    parts,
+    aspectRatio: body.aspectRatio,
+    imageSize: body.imageSize,
+    label: typeof body.label === 'string' ? body.label.slice(0, 64) : 'Sheet',
+    seed: body.seed,
+    temperature: body.temperature,
+  };
+};
+
+export const createProxyServer = (options: ProxyServerOptions): http.Server => {
+  const ipQuota = createDailyQuota(options.dailyLimitPerIp);
+  const sessionQuota = createDailyQuota(options.dailyLimitPerSession);
+  const rateLimiter = createRateLimiter(options.requestsPerMinute, 60 * 1000);
+
+  const clientIp = (req: http.IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (options.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress || 'unknown';
+  };
+
+  const sessionId = (req: http.IncomingMessage): string | null => {
+    const value = req.headers[SESSION_HEADER];
+    return typeof value === 'string' && SESSION_ID_PATTERN.test(value) ? value : null;
+  };
+
+  // Whichever of the IP and session allowances runs out first
+  const quotaStatus = (ip: string, session: string | null): QuotaStatus => {
+    const ipRemaining = ipQuota.limit - ipQuota.used(ip);
+    const sessionRemaining = session ? sessionQuota.limit - sessionQuota.used(session) : Infinity;
+    const bySession = sessionRemaining < ipRemaining;
+    const limit = bySession ? sessionQuota.limit : ipQuota.limit;
+    const remaining = Math.max(0, Math.min(ipRemaining, sessionRemaining));
+    return { limit, used: limit - remaining, remaining, resetAt: ipQuota.resetAt() };
+  };
+
+  const send = (res: http.ServerResponse, status: number, body: object, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  const handleGenerate = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const ip = clientIp(req);
+    const session = sessionId(req);
+
+    const retryAfter = rateLimiter.hit(ip);
+    if (retryAfter > 0) {
+      const body: ProxyErrorResponse = { error: 'Too many requests. Slow down and try again shortly.', code: 'RATE_LIMITED', retryAfterSeconds: retryAfter };
+      send(res, 429, body, { 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    const request = parseGenerateRequest(await readJson(req), options.allowedModels);
+
+    // Reserve against both allowances up front so parallel requests cannot overshoot
+    if (!ipQuota.tryConsume(ip)) {
+      throw new HttpError(429, 'QUOTA_EXCEEDED', 'Daily free limit reached.');
+    }
+    if (session && !sessionQuota.tryConsume(session)) {
+      ipQuota.refund(ip);
+      throw new HttpError(429, 'QUOTA_EXCEEDED', 'Daily free limit reached.');
+    }
+
+    // Stop paying for a generation nobody is waiting for
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const { image, usage } = await options.upstream(request, controller.signal);
+      const body: ProxyGenerateResponse = { image, usage, quota: quotaStatus(ip, session) };
+      send(res, 200, body);
+    } catch (err: any) {
+      ipQuota.refund(ip);
+      if (session) sessionQuota.refund(session);
+      const status = Number(err?.status);
+      // Keep 5xx and overload statuses so the client's retry logic still applies
+      throw new HttpError(status >= 400 && status < 600 ? status : 502, 'UPSTREAM_ERROR', err?.message || 'Upstream request failed.');
+    }
+  };
+
+  return http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${SESSION_HEADER}`);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+    const path = (req.url || '/').split('?')[0];
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+      } else if (req.method === 'GET' && path === '/api/quota') {
+        send(res, 200, quotaStatus(clientIp(req), sessionId(req)));
+      } else if (req.method === 'POST' && path === '/api/generate') {
+        await handleGenerate(req, res);
+      } else {
+        throw new HttpError(404, 'NOT_FOUND', 'Not found.');
+      }
+    } catch (err: any) {
+      if (res.headersSent) return;
+      const status = err instanceof HttpError ? err.status : 500;
+      const body: ProxyErrorResponse = {
+        error: err instanceof HttpError ? err.message : 'Internal server error.',
+        code: err instanceof HttpError ? err.code : 'UPSTREAM_ERROR',
+      };
+      if (body.code === 'QUOTA_EXCEEDED') body.quota = quotaStatus(clientIp(req), sessionId(req));
+      if (status >= 500) console.error(err);
+      send(res, status, body);
+    }
+  });
+};
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Started directly with `npm run server`; importing the module (e.g. from a test) does not listen
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const useMock = process.env.PROXY_UPSTREAM === 'mock';
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!useMock && !apiKey) {
+    console.error('Set GEMINI_API_KEY, or PROXY_UPSTREAM=mock to run without network access.');
+    process.exit(1);
+  }
+
+  const port = envNumber('PORT', 8787);
+  createProxyServer({
+    upstream: useMock ? createMockUpstream() : createGeminiUpstream(apiKey!),
+    dailyLimitPerIp: envNumber('PROXY_DAILY_LIMIT_IP', 10),
+    dailyLimitPerSession: envNumber('PROXY_DAILY_LIMIT_SESSION', 3),
+    requestsPerMinute: envNumber('PROXY_RATE_LIMIT', 5),
+    allowedOrigin: process.env.PROXY_ALLOWED_ORIGIN || '*',
+    allowedModels: (process.env.PROXY_MODELS || 'gemini-3-pro-image-preview').split(',').map(m => m.trim()),
+    trustProxy: process.env.TRUST_PROXY === 'true',
+  }).listen(port, () => {
+    console.log(`Proxy listening on http://localhost:${port} (${useMock ? 'mock' : 'Gemini'} upstream)`);
+  });
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDailyQuota, createRateLimiter } from './limits.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Clock the test moves by hand
+const manualClock = (start: number) => {
+  let time = start;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+test('daily quota allows `limit` uses per key', () => {
+  const quota = createDailyQuota(2, () => 0);
+  assert.equal(quota.tryConsume('a'), true);
+  assert.equal(quota.tryConsume('a'), true);
+  assert.equal(quota.tryConsume('a'), false);
+  assert.equal(quota.used('a'), 2);
+  assert.equal(quota.tryConsume('b'), true);
+});
+
+test('daily quota resets at UTC midnight, not 24 hours after first use', () => {
+  const clock = manualClock(3 * DAY_MS + 23 * 60 * 60 * 1000); // 23:00 UTC
+  const quota = createDailyQuota(1, clock.now);
+  assert.equal(quota.tryConsume('a'), true);
+  assert.equal(quota.tryConsume('a'), false);
+  assert.equal(quota.resetAt(), 4 * DAY_MS);
+
+  clock.advance(60 * 60 * 1000 - 1); // 23:59:59.999
+  assert.equal(quota.tryConsume('a'), false);
+  clock.advance(1); // Midnight
+  assert.equal(quota.used('a'), 0);
+  assert.equal(quota.tryConsume('a'), true);
+  assert.equal(quota.resetAt(), 5 * DAY_MS);
+});
+
+test('refund gives a reserved use back, never below zero', () => {
+  const quota = createDailyQuota(1, () => 0);
+  assert.equal(quota.tryConsume('a'), true);
+  quota.refund('a');
+  assert.equal(quota.used('a'), 0);
+  assert.equal(quota.tryConsume('a'), true);
+  quota.refund('b');
+  assert.equal(quota.used('b'), 0);
+});
+
+test('rate limiter allows `max` hits in any window and reports the wait in seconds', () => {
+  const clock = manualClock(0);
+  const limiter = createRateLimiter(2, 60 * 1000, clock.now);
+  assert.equal(limiter.hit('a'), 0);
+  clock.advance(20 * 1000);
+  assert.equal(limiter.hit('a'), 0);
+  clock.advance(10 * 1000);
+  // The first hit leaves the window 30 seconds from now
+  assert.equal(limiter.hit('a'), 30);
+  assert.equal(limiter.hit('b'), 0);
+
+  clock.advance(29.5 * 1000);
+  assert.equal(limiter.hit('a'), 1); // Rounded up, never 0 while limited
+  clock.advance(500);
+  assert.equal(limiter.hit('a'), 0);
+  // The window slides: the hit at 20s is still in it, so only one more fits
+  assert.equal(limiter.hit('a'), 20);
+});
+
+test('rejected hits do not extend the rate limit window', () => {
+  const clock = manualClock(0);
+  const limiter = createRateLimiter(1, 1000, clock.now);
+  assert.equal(limiter.hit('a'), 0);
+  clock.advance(500);
+  assert.equal(limiter.hit('a'), 1);
+  clock.advance(500);
+  assert.equal(limiter.hit('a'), 0);
+});
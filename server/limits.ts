@@ -0,0 +1,85 @@
+// In-memory quotas and rate limits. State is lost on restart, which only ever errs in the user's favour.
+
+type Clock = () => number;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TRACKED_KEYS = 10000;
+
+// Start of the next UTC day; daily counters reset there
+const nextUtcMidnight = (now: number): number => Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
+
+export interface DailyQuota {
+  limit: number;
+  used: (key: string) => number;
+  resetAt: () => number;
+  // Reserves one use; false when the key has none left
+  tryConsume: (key: string) => boolean;
+  // Gives a reserved use back, e.g. when the upstream call failed
+  refund: (key: string) => void;
+}
+
+export const createDailyQuota = (limit: number, now: Clock = Date.now): DailyQuota => {
+  const counts = new Map<string, number>();
+  let day = Math.floor(now() / DAY_MS);
+
+  // Drop yesterday's counters lazily on first use each day
+  const rollOver = () => {
+    const today = Math.floor(now() / DAY_MS);
+    if (today !== day) {
+      counts.clear();
+      day = today;
+    }
+  };
+
+  return {
+    limit,
+    used: (key) => {
+      rollOver();
+      return counts.get(key) || 0;
+    },
+    resetAt: () => nextUtcMidnight(now()),
+    tryConsume: (key) => {
+      rollOver();
+      const used = counts.get(key) || 0;
+      if (used >= limit) return false;
+      counts.set(key, used + 1);
+      return true;
+    },
+    refund: (key) => {
+      rollOver();
+      const used = counts.get(key) || 0;
+      if (used <= 1) counts.delete(key);
+      else counts.set(key, used - 1);
+    },
+  };
+};
+
+export interface RateLimiter {
+  // Seconds until the key may try again, or 0 if this hit is allowed (and recorded)
+  hit: (key: string) => number;
+}
+
+// Sliding window: at most `max` hits per key in any `windowMs`
+export const createRateLimiter = (max: number, windowMs: number, now: Clock = Date.now): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  return {
+    hit: (key) => {
+      const time = now();
+      // Forget idle keys now and then so the map does not grow with every address ever seen
+      if (hits.size > MAX_TRACKED_KEYS) {
+        for (const [k, times] of hits) {
+          if (time - times[times.length - 1] >= windowMs) hits.delete(k);
+        }
+      }
+      const recent = (hits.get(key) || []).filter(t => time - t < windowMs);
+      if (recent.length >= max) {
+        hits.set(key, recent);
+        return Math.max(1, Math.ceil((recent[0] + windowMs - time) / 1000));
+      }
+      recent.push(time);
+      hits.set(key, recent);
+      return 0;
+    },
+  };
+};
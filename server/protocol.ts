@@ -0,0 +1,47 @@
+// Wire format shared by the proxy server and the browser client. Types only, so both sides can import it.
+
+export type ProxyImagePart =
+  | { inlineData: { mimeType: string; data: string } }
+  | { text: string };
+
+// Same fields as an ImageRequest from the client, minus the abort signal
+export interface ProxyGenerateRequest {
+  model: string;
+  parts: ProxyImagePart[];
+  aspectRatio: string;
+  imageSize: '1K' | '2K' | '4K';
+  label: string;
+  seed?: number; // Integer; same seed and settings give (nearly) the same image
+  temperature?: number; // 0-2
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: number; // Epoch ms of the next UTC midnight
+}
+
+export interface ProxyTokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ProxyGenerateResponse {
+  image: string; // Data URL
+  usage?: ProxyTokenUsage; // As reported by the upstream model
+  quota: QuotaStatus;
+}
+
+export type ProxyErrorCode = 'BAD_REQUEST' | 'QUOTA_EXCEEDED' | 'RATE_LIMITED' | 'UPSTREAM_ERROR' | 'NOT_FOUND';
+
+export interface ProxyErrorResponse {
+  error: string;
+  code: ProxyErrorCode;
+  retryAfterSeconds?: number; // Set for RATE_LIMITED
+  quota?: QuotaStatus;
+}
+
+// Header carrying the browser's session id, so quotas apply per session as well as per IP
+export const SESSION_HEADER = 'x-session-id';
@@ -0,0 +1,72 @@
+import { GoogleGenAI } from '@google/genai';
+import { ProxyGenerateRequest, ProxyTokenUsage } from './protocol.js';
+
+export interface UpstreamResult {
+  image: string; // Data URL
+  usage?: ProxyTokenUsage;
+}
+
+// Produces the image for a validated request
+export type Upstream = (request: ProxyGenerateRequest, signal: AbortSignal) => Promise<UpstreamResult>;
+
+export class UpstreamError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+  }
+}
+
+export const createGeminiUpstream = (apiKey: string): Upstream => {
+  const ai = new GoogleGenAI({ apiKey });
+  return async (request, signal) => {
+    let response;
+    try {
+      response = await ai.models.generateContent({
+        model: request.model,
+        contents: { parts: request.parts },
+        config: {
+          abortSignal: signal,
+          seed: request.seed,
+          temperature: request.temperature,
+          imageConfig: {
+            aspectRatio: request.aspectRatio,
+            imageSize: request.imageSize
+          }
+        }
+      });
+    } catch (err: any) {
+      // Pass the status through so the client can tell overload (retry) from a bad request
+      throw new UpstreamError(err?.message || 'Upstream request failed', Number(err?.status) || 502);
+    }
+
+    const metadata = response.usageMetadata;
+    const usage = metadata && {
+      promptTokens: metadata.promptTokenCount || 0,
+      outputTokens: metadata.candidatesTokenCount || 0,
+      totalTokens: metadata.totalTokenCount || 0,
+    };
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return { image: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`, usage };
+      }
+    }
+    throw new UpstreamError(`${request.label}: No image generated.`, 502);
+  };
+};
+
+// 8x8 solid #00FF00 PNG; the client scales and keys it like any other sheet
+const MOCK_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAIAAABLbSncAAAAEElEQVR42mNg+M+AHQ0tCQDpMD/BHYHcAQAAAABJRU5ErkJggg==';
+
+// Offline upstream for development and tests: no network, answers after `latencyMs`
+export const createMockUpstream = (latencyMs: number = 300): Upstream => (request, signal) =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve({ image: MOCK_IMAGE }), latencyMs);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new UpstreamError(`${request.label}: Cancelled.`, 499));
+    }, { once: true });
+  });
@@ -0,0 +1,29 @@
+import { GeneratedSheet, SheetVersion } from './types';
+
+// Append a version to a sheet's chain and select it
+export const addSheetVersion = (sheet: GeneratedSheet, version: SheetVersion): GeneratedSheet => ({
+  ...sheet,
+  src: version.src,
+  versions: [...sheet.versions, version],
+  versionIndex: sheet.versions.length,
+});
+
+// Step through a sheet's version chain
+export const selectSheetVersion = (sheet: GeneratedSheet, index: number): GeneratedSheet => {
+  const clamped = Math.max(0, Math.min(sheet.versions.length - 1, index));
+  return { ...sheet, src: sheet.versions[clamped].src, versionIndex: clamped };
+};
+
+// Replace the processed image of the selected version, keeping its raw model output
+export const replaceCurrentVersionSrc = (sheet: GeneratedSheet, src: string): GeneratedSheet => ({
+  ...sheet,
+  src,
+  versions: sheet.versions.map((version, i) => (i === sheet.versionIndex ? { ...version, src } : version)),
+});
+
+// Split a data URL into the inline data shape the model API expects
+export const toInlineData = (dataUrl: string): { mimeType: string; data: string } => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.replace(/^data:/, '').replace(/;base64$/, '');
+  return { mimeType, data };
+};
@@ -3,23 +3,199 @@ export interface ReferenceImage {
   id: string;
   data: string; // Base64
   mimeType: string;
+  name: string; // Character name, may be empty
+  captions: string[]; // Desired captions or expressions, one per sticker
+  stickerCount: number; // Stickers of this character per sheet
+  note: string; // Free-text guidance for the model
+  hash?: string; // Perceptual hash, for spotting duplicate uploads
 }
 
 export type Resolution = '1K' | '2K' | '4K';
 
-export type SheetSizePreset = '4x6' | '8.5x11' | 'custom';
+export type SheetSizePreset = '4x6' | '5x7' | '3x3' | '8.5x11' | 'a4' | 'a5' | 'custom';
+
+export type LengthUnit = 'in' | 'mm' | 'cm';
+
+export type PrintDpi = 150 | 300 | 600;
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface MattingOptions {
+  innerTolerance: number; // Color distance below which pixels are fully transparent
+  outerTolerance: number; // Color distance above which pixels are fully opaque
+  spillStrength: number; // 0-1, how much key color is removed from edge pixels
+  floodFill: boolean; // Only remove background connected to the image border
+  autoDetect: boolean; // Key the color found along the image edges instead of the requested one
+}
 
 export interface AppConfig {
+  providerId: ProviderId;
+  model: string; // One of the provider's models
   resolution: Resolution;
   backgroundColor: string; // Hex
   isTransparent: boolean;
   sheetSize: SheetSizePreset;
-  customWidth: number;
-  customHeight: number;
+  customWidth: number; // In customUnit
+  customHeight: number; // In customUnit
+  customUnit: LengthUnit;
   numberOfSheets: number;
+  dpi: PrintDpi;
+  marginInches: number; // Printer-safe margin kept clear on every side
+  promptTemplateId: string;
+  concurrency: number; // Max sheets generated at the same time
+  matting: MattingOptions; // Background removal for transparent sheets
+  consistencyMode: boolean; // Draw a model sheet per character first and send it with every sheet
+  expressionGridId: string; // Expression grid every character draws in consistency mode; empty uses the captions
+  seed: number | null; // Base seed of a run, sheet N uses seed + N; null picks a random one per run
+  temperature: number; // 0-2, sampling randomness
+  styleStrength: number; // 1 (loose) to 5 (strict) fidelity to the references
+  qualityChecks: boolean; // Analyze each sheet before showing it
+  qualityRetries: number; // Extra generations per run for sheets that fail the checks
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  style: string; // Rendering style and lighting
+  anatomy: string; // Anatomy, posing and expression rules
+  captions: string; // Caption (text) policy
+  layout: string; // Sheet layout rules
+}
+
+export interface ExpressionGrid {
+  id: string;
+  name: string;
+  columns: number;
+  expressions: string[]; // Row by row
+}
+
+export interface PaletteColor {
+  rgb: [number, number, number];
+  weight: number; // Share of the counted pixels, 0-1
+}
+
+// Canonical design of one character, drawn from its reference before the sheets
+export interface ModelSheet {
+  referenceId: string;
+  referenceKey: string; // Identifies the reference image version it was drawn from
+  src: string; // Raw model output on the green key color
+  palette: PaletteColor[];
+  createdAt: number;
+}
+
+export interface SavedPreset {
+  id: string;
+  name: string;
+  config: AppConfig;
+}
+
+export interface SheetVersion {
+  src: string; // Processed data URL (transparency, print size)
+  rawSrc: string; // Unprocessed model output, sent back for refinement
+  instruction?: string; // Refinement instruction that produced this version
+  createdAt: number;
+  quality?: QualityReport; // Only for generated versions with quality checks on
+}
+
+export type QualityCheck = 'count' | 'spacing' | 'border' | 'background';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  message: string;
+}
+
+export interface QualityReport {
+  score: number; // 0-100
+  passed: boolean;
+  issues: QualityIssue[];
+  attempts: number; // Generations it took, including automatic retries
+}
+
+// Settings a sheet was generated with, for reproducing and comparing it
+export interface SheetParams {
+  runId: string;
+  seed: number;
+  config: AppConfig;
+}
+
+export interface GeneratedSheet {
+  id: string;
+  src: string; // Data URL of the selected version
+  versions: SheetVersion[];
+  versionIndex: number; // Selected entry in versions
+  isTransparent: boolean;
+  keyColor: string; // Hex of the background to key out when segmenting
+  sheetWidth: number; // Physical sheet width in inches at generation time
+  sheetHeight: number; // Physical sheet height in inches at generation time
+  params?: SheetParams; // Missing for composed sheets and older history entries
+}
+
+export interface StickerBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface StickerAsset {
+  id: string;
+  sheetId: string;
+  src: string; // Transparent PNG data URL
+  bounds: StickerBounds; // Crop rectangle on the source sheet
+}
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'failed' | 'done' | 'cancelled';
+
+export interface SheetJob {
+  id: string;
+  index: number; // Position in the batch
+  status: JobStatus;
+  attempt: number;
+  retryInMs?: number;
+  error?: string;
+  progress?: number; // 0-1, set while the image is post-processed
+}
+
+export interface HistoryEntry {
+  id: string;
+  projectId?: string; // Project the run belongs to; missing for runs from before projects
+  createdAt: number; // Epoch milliseconds
+  model: string;
+  prompt: string;
+  config: AppConfig;
+  referenceImages: ReferenceImage[];
+  sheets: GeneratedSheet[];
+  sizeBytes: number; // Approximate stored size, used for quota eviction
+}
+
+// Everything needed to pick a project up again, on this device or another
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  config: AppConfig;
+  referenceImages: ReferenceImage[];
+  templates: PromptTemplate[]; // Custom templates the config uses, so the project opens anywhere
+  sheets: GeneratedSheet[]; // Results on screen when last saved
+  run: Omit<HistoryEntry, 'sheets' | 'sizeBytes'> | null; // Run the results came from
+  modelSheets: ModelSheet[];
 }
 
 export interface AIStudio {
   hasSelectedApiKey: () => Promise<boolean>;
   openSelectKey: () => Promise<void>;
 }
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  customer: string; // Folder or manifest name, also the output folder
+  references: ReferenceImage[];
+  overrides: Partial<AppConfig>; // Applied on top of the current config
+  status: BatchItemStatus;
+  sheets: GeneratedSheet[]; // Finished sheets, kept when a failed item is resumed
+  error?: string;
+}
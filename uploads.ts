@@ -0,0 +1,225 @@
+import { loadImage } from './utils';
+
+// Normalizes reference images before they are stored and sent with every request
+
+export interface UploadSettings {
+  maxEdge: number; // Longest side in px after downscaling; 0 keeps the original size
+}
+
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = {
+  maxEdge: 1536,
+};
+
+export const MAX_EDGE_OPTIONS = [768, 1024, 1536, 2048, 0];
+
+const UPLOAD_SETTINGS_KEY = 'sticker_genius_upload';
+const MAX_UPLOAD_BYTES = 40 * 1024 * 1024;
+const JPEG_QUALITY = 0.9;
+// dHash bits that may differ for two images to count as the same picture
+const DUPLICATE_DISTANCE = 6;
+
+export const loadUploadSettings = (): UploadSettings => {
+  try {
+    const stored = localStorage.getItem(UPLOAD_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_UPLOAD_SETTINGS, ...JSON.parse(stored) } : DEFAULT_UPLOAD_SETTINGS;
+  } catch {
+    return DEFAULT_UPLOAD_SETTINGS;
+  }
+};
+
+export const saveUploadSettings = (settings: UploadSettings) => {
+  localStorage.setItem(UPLOAD_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface PreparedImage {
+  data: string; // Base64, without the data URL prefix
+  mimeType: 'image/png' | 'image/jpeg';
+  width: number;
+  height: number;
+  hash: string; // Perceptual hash, see perceptualHash
+}
+
+const isHeic = (file: File) => /image\/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// Returns a user-facing reason the file cannot be used, or null if it is worth trying to decode
+export const checkUploadFile = (file: File): string | null => {
+  const looksLikeImage = file.type.startsWith('image/') || /\.(png|jpe?g|webp|gif|bmp|avif|hei[cf])$/i.test(file.name);
+  if (!looksLikeImage) return `${file.name}: not an image file.`;
+  if (file.type === 'image/svg+xml' || /\.svg$/i.test(file.name)) return `${file.name}: SVG is not supported; export it as PNG first.`;
+  if (file.size > MAX_UPLOAD_BYTES) return `${file.name}: larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`;
+  return null;
+};
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+// 64-bit difference hash of a 9x8 grayscale thumbnail, as 16 hex digits. Survives resizing and re-encoding.
+export const perceptualHash = (source: CanvasImageSource): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(source, 0, 0, 9, 8);
+  const { data } = ctx.getImageData(0, 0, 9, 8);
+
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hex = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const isDuplicateHash = (a: string, b: string): boolean =>
+  a.length === b.length && hammingDistance(a, b) <= DUPLICATE_DISTANCE;
+
+// Crop rectangle in source pixels
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Draw (part of) an image scaled down to fit maxEdge, and encode it. PNG keeps transparency, everything else becomes JPEG.
+const encodeImage = (img: HTMLImageElement, maxEdge: number, crop?: CropRect): PreparedImage => {
+  const area = crop || { x: 0, y: 0, width: img.width, height: img.height };
+  const scale = maxEdge > 0 ? Math.min(1, maxEdge / Math.max(area.width, area.height)) : 1;
+  const width = Math.max(1, Math.round(area.width * scale));
+  const height = Math.max(1, Math.round(area.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, area.x, area.y, area.width, area.height, 0, 0, width, height);
+
+  const mimeType = hasTransparency(ctx, width, height) ? 'image/png' : 'image/jpeg';
+  const dataUrl = canvas.toDataURL(mimeType, JPEG_QUALITY);
+  return { data: dataUrl.split(',')[1], mimeType, width, height, hash: perceptualHash(canvas) };
+};
+
+// Decode, downscale and re-encode an uploaded file. Throws with a user-facing message.
+export const prepareUpload = async (file: File, settings: UploadSettings): Promise<PreparedImage> => {
+  const problem = checkUploadFile(file);
+  if (problem) throw new Error(problem);
+
+  const url = URL.createObjectURL(file);
+  try {
+    let img: HTMLImageElement;
+    try {
+      img = await loadImage(url);
+    } catch {
+      throw new Error(isHeic(file)
+        ? `${file.name}: this browser cannot read HEIC photos. Convert it to JPEG, or set the camera to "Most Compatible".`
+        : `${file.name}: the image could not be decoded; it may be corrupted or in an unsupported format.`);
+    }
+    return encodeImage(img, settings.maxEdge);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Re-encode a stored reference with a crop applied
+export const cropReference = async (src: string, crop: CropRect, settings: UploadSettings): Promise<PreparedImage> =>
+  encodeImage(await loadImage(src), settings.maxEdge, crop);
+
+export const hashReferenceImage = async (src: string): Promise<string> => perceptualHash(await loadImage(src));
+
+// Suggested crop around the subject: trims borders that match the corner color, with a little padding
+export const suggestCrop = async (src: string): Promise<CropRect> => {
+  const img = await loadImage(src);
+  // Measure on a small copy; precision of a few px is plenty for a suggestion
+  const scale = Math.min(1, 256 / Math.max(img.width, img.height));
+  const w = Math.max(1, Math.round(img.width * scale));
+  const h = Math.max(1, Math.round(img.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const [br, bg, bb, ba] = data.slice(0, 4);
+  const isBackground = (x: number, y: number) => {
+    const i = (y * w + x) * 4;
+    if (ba < 16) return data[i + 3] < 16;
+    return Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb) < 48 && data[i + 3] > 200;
+  };
+
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (isBackground(x, y)) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, width: img.width, height: img.height };
+
+  const pad = Math.round(Math.max(maxX - minX, maxY - minY) * 0.05);
+  const x0 = Math.max(0, minX - pad), y0 = Math.max(0, minY - pad);
+  const x1 = Math.min(w, maxX + 1 + pad), y1 = Math.min(h, maxY + 1 + pad);
+  return {
+    x: Math.round(x0 / scale),
+    y: Math.round(y0 / scale),
+    width: Math.min(img.width, Math.round((x1 - x0) / scale)),
+    height: Math.min(img.height, Math.round((y1 - y0) / scale)),
+  };
+};
+
+// Last path segment, decoded when it is valid percent-encoding (e.g. not "%E0%A4%A")
+const fileNameFromUrl = (url: string): string => {
+  const segment = new URL(url).pathname.split('/').pop() || '';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+// Download an image URL (or data URL) as a File, so it goes through the same pipeline as uploads
+export const fileFromUrl = async (url: string, fallbackName: string): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    // fetch only says "Failed to fetch" for both network and CORS failures
+    throw new Error("Could not download the image. The site may not allow it to be loaded from here; save it and upload the file instead.");
+  }
+  if (!response.ok) throw new Error(`Could not download the image (HTTP ${response.status}).`);
+
+  const blob = await response.blob();
+  if (blob.type && !blob.type.startsWith('image/')) throw new Error("That URL does not point to an image.");
+  const name = url.startsWith('data:') ? fallbackName : fileNameFromUrl(url) || fallbackName;
+  return new File([blob], name, { type: blob.type });
+};
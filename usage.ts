@@ -0,0 +1,147 @@
+import { ProviderId, Resolution } from './types';
+import { TokenUsage } from './providers';
+
+// One image generation call, successful or not
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  providerId: ProviderId;
+  model: string;
+  resolution: Resolution;
+  images: number;
+  usage?: TokenUsage;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+  costUsd: number; // Estimated from the price table at the time of the call
+  keyLabel: string; // Name of the key used, e.g. "Personal" or "Demo key"
+  project: string;
+}
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per million prompt tokens
+  perImage: Record<Resolution, number>; // USD per generated image
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageSettings {
+  prices: PriceTable;
+  dailyBudgetUsd: number; // 0 turns the budget warning off
+}
+
+// Published list prices; edit them in the usage dashboard when they change
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  'mock-sheet-v1': { inputPerMillion: 0, perImage: { '1K': 0, '2K': 0, '4K': 0 } },
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_PRICES,
+  dailyBudgetUsd: 0,
+};
+
+const USAGE_RECORDS_KEY = 'sticker_genius_usage';
+const USAGE_SETTINGS_KEY = 'sticker_genius_usage_settings';
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 5000;
+
+export const loadUsageRecords = (): UsageRecord[] => {
+  try {
+    const stored = localStorage.getItem(USAGE_RECORDS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Append a record, dropping anything past the retention window
+export const recordUsage = (record: UsageRecord) => {
+  const cutoff = Date.now() - RETENTION_MS;
+  const records = [...loadUsageRecords().filter(r => r.timestamp >= cutoff), record].slice(-MAX_RECORDS);
+  try {
+    localStorage.setItem(USAGE_RECORDS_KEY, JSON.stringify(records));
+  } catch (err) {
+    console.error("Failed to save usage record", err);
+  }
+};
+
+export const clearUsageRecords = () => {
+  localStorage.removeItem(USAGE_RECORDS_KEY);
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(USAGE_SETTINGS_KEY);
+    if (!stored) return DEFAULT_USAGE_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return { ...DEFAULT_USAGE_SETTINGS, ...parsed, prices: { ...DEFAULT_PRICES, ...parsed.prices } };
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Models without a price entry cost nothing, which the dashboard points out
+export const estimateCost = (prices: PriceTable, model: string, resolution: Resolution, images: number, promptTokens: number): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  return images * price.perImage[resolution] + (promptTokens / 1_000_000) * price.inputPerMillion;
+};
+
+// Expected cost of the next call, using the average prompt size of earlier calls to the same model
+export const estimateCallCost = (settings: UsageSettings, records: UsageRecord[], model: string, resolution: Resolution): number => {
+  const samples = records.filter(r => r.model === model && r.usage);
+  const promptTokens = samples.length > 0
+    ? samples.reduce((sum, r) => sum + r.usage!.promptTokens, 0) / samples.length
+    : 0;
+  return estimateCost(settings.prices, model, resolution, 1, promptTokens);
+};
+
+export interface UsageSummary {
+  calls: number;
+  images: number;
+  failures: number;
+  tokens: number;
+  costUsd: number;
+  latencyMs: number; // Average over successful calls
+}
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const successes = records.filter(r => r.success);
+  return {
+    calls: records.length,
+    images: successes.reduce((sum, r) => sum + r.images, 0),
+    failures: records.length - successes.length,
+    tokens: records.reduce((sum, r) => sum + (r.usage?.totalTokens || 0), 0),
+    costUsd: records.reduce((sum, r) => sum + r.costUsd, 0),
+    latencyMs: successes.length > 0 ? successes.reduce((sum, r) => sum + r.latencyMs, 0) / successes.length : 0,
+  };
+};
+
+// Summaries keyed by e.g. key label or project, largest spend first
+export const groupUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): Array<[string, UsageSummary]> => {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }
+  return Array.from(groups, ([key, group]): [string, UsageSummary] => [key, summarizeUsage(group)])
+    .sort((a, b) => b[1].costUsd - a[1].costUsd || b[1].calls - a[1].calls);
+};
+
+// Local midnight, `daysAgo` days back
+export const startOfDay = (daysAgo: number = 0): number => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - daysAgo);
+  return date.getTime();
+};
+
+export const formatUsd = (value: number): string =>
+  value > 0 && value < 0.01 ? '<$0.01' : `$${value.toFixed(2)}`;
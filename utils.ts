@@ -1,3 +1,5 @@
+import { RgbaBuffer } from './matting';
+
 // Convert File to Base64 string
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -18,53 +20,95 @@ export const getMimeType = (file: File): string => {
   return file.type || 'image/png';
 };
 
-// Chroma Key function to remove specific background color
-export const removeBackground = (imageSrc: string, targetColorHex: string, tolerance: number = 80): Promise<string> => {
+// Short random id used for images, sheets and stickers
+export const createId = (): string => Math.random().toString(36).substr(2, 9);
+
+// Convert hex color (#RRGGBB) to RGB components
+export const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+// Load an image element from a URL or data URL
+export const loadImage = (imageSrc: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = "Anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = (err) => reject(err);
     img.src = imageSrc;
-    
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
+  });
+};
 
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-      
-      // Convert hex to RGB
-      const rTarget = parseInt(targetColorHex.slice(1, 3), 16);
-      const gTarget = parseInt(targetColorHex.slice(3, 5), 16);
-      const bTarget = parseInt(targetColorHex.slice(5, 7), 16);
+// Size scaled down so the longer side is at most maxEdge, never scaled up
+export const fitWithin = (width: number, height: number, maxEdge: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
 
-      for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
+// Read the raw RGBA pixels of an image, optionally downscaled to at most maxEdge pixels a side
+export const getImageData = async (imageSrc: string, maxEdge = Infinity): Promise<ImageData> => {
+  const img = await loadImage(imageSrc);
+  const { width, height } = fitWithin(img.width, img.height, maxEdge);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
 
-        // Euclidean distance
-        const distance = Math.sqrt(
-          Math.pow(r - rTarget, 2) +
-          Math.pow(g - gTarget, 2) +
-          Math.pow(b - bTarget, 2)
-        );
+// Encode raw RGBA pixels back into a PNG data URL
+export const imageDataToDataUrl = (imageData: ImageData | RgbaBuffer): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+  const pixels = imageData instanceof ImageData
+    ? imageData
+    : new ImageData(imageData.data, imageData.width, imageData.height);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
 
-        if (distance < tolerance) {
-          data[i + 3] = 0; // Set alpha to 0
-        }
-      }
+// Decode a base64 data URL into raw bytes
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
 
-      ctx.putImageData(imageData, 0, 0);
-      resolve(canvas.toDataURL('image/png'));
-    };
-    
-    img.onerror = (err) => reject(err);
-  });
+// Encode raw bytes as a base64 data URL
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// Trigger a browser download for a data URL
+export const downloadDataUrl = (src: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = src;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Trigger a browser download for a Blob
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
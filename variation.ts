@@ -0,0 +1,62 @@
+import { AppConfig, PromptTemplate } from './types';
+import { findTemplate } from './prompts';
+import { findExpressionGrid } from './consistency';
+import { formatSheetSize, getSheetDimensions } from './layout';
+
+// Seeds, sampling and fidelity settings, and what differs between two sheets' settings
+
+export const DEFAULT_TEMPERATURE = 1;
+export const DEFAULT_STYLE_STRENGTH = 3;
+
+export const STYLE_STRENGTH_LABELS: Record<number, string> = {
+  1: 'Loose',
+  2: 'Relaxed',
+  3: 'Template default',
+  4: 'Close',
+  5: 'Exact',
+};
+
+const MAX_SEED = 2 ** 31 - 1;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// Each sheet of a run gets its own seed, derived from the run's base seed
+export const sheetSeed = (baseSeed: number, index: number): number => (baseSeed + index) % MAX_SEED;
+
+export interface ParamDifference {
+  label: string;
+  a: string;
+  b: string;
+}
+
+interface ComparedParam {
+  label: string;
+  format: (config: AppConfig, seed: number) => string;
+}
+
+const onOff = (value: boolean) => (value ? 'On' : 'Off');
+
+// Settings that affect the image, in the order the comparison lists them
+const compareFields = (templates: PromptTemplate[]): ComparedParam[] => [
+  { label: 'Seed', format: (_, seed) => String(seed) },
+  { label: 'Temperature', format: config => config.temperature.toFixed(1) },
+  { label: 'Style strength', format: config => `${config.styleStrength} · ${STYLE_STRENGTH_LABELS[config.styleStrength] || ''}` },
+  { label: 'Model', format: config => `${config.providerId} / ${config.model}` },
+  { label: 'Resolution', format: config => config.resolution },
+  { label: 'Template', format: config => findTemplate(templates, config.promptTemplateId).name },
+  { label: 'Sheet size', format: config => formatSheetSize(getSheetDimensions(config)) },
+  { label: 'Background', format: config => (config.isTransparent ? 'Transparent' : config.backgroundColor) },
+  { label: 'Consistency mode', format: config => onOff(config.consistencyMode) },
+  { label: 'Expressions', format: config => findExpressionGrid(config.expressionGridId)?.name || 'Captions' },
+  { label: 'Print DPI', format: config => String(config.dpi) },
+  { label: 'Safe margin', format: config => `${config.marginInches}"` },
+];
+
+export const diffParams = (
+  a: { config: AppConfig; seed: number },
+  b: { config: AppConfig; seed: number },
+  templates: PromptTemplate[]
+): ParamDifference[] =>
+  compareFields(templates)
+    .map(field => ({ label: field.label, a: field.format(a.config, a.seed), b: field.format(b.config, b.seed) }))
+    .filter(diff => diff.a !== diff.b);
@@ -2,8 +2,18 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // A key inlined into a bundle is readable by anyone who loads the app, whatever the build mode
+    const allowBundledKey = env.ALLOW_BUNDLED_API_KEY === 'true';
+    if (command === 'build' && env.GEMINI_API_KEY && !allowBundledKey) {
+      throw new Error(
+        'GEMINI_API_KEY is set and would be embedded in the bundle. ' +
+        'Unset it for the build, or set ALLOW_BUNDLED_API_KEY=true if shipping a shared demo key is intended.'
+      );
+    }
+    // Only the dev server gets the key, unless bundling it was allowed explicitly
+    const apiKey = command === 'serve' || allowBundledKey ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
@@ -11,8 +21,9 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL || '')
       },
       resolve: {
         alias: {